@@ -29,7 +29,7 @@ module.exports = tseslint.config(
       sourceType: 'module',
       parser: tseslint.parser,
       parserOptions: {
-        project: './tsconfig.json',
+        project: ['./tsconfig.json', './test/tsconfig.json'],
       },
     },
     rules: {
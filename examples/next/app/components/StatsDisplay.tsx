@@ -7,8 +7,12 @@ export function StatsDisplay() {
 
   if (state.pointCount === null) return null;
 
+  const visible = state.visiblePoints;
+
   return (
     <span className="text-sm text-zinc-500">
+      {visible?.truncated &&
+        `showing ${visible.rowCount.toLocaleString()} of ${visible.totalCount.toLocaleString()} · `}
       {state.pointCount.toLocaleString()} points
     </span>
   );
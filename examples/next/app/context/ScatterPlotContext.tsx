@@ -9,7 +9,7 @@ import {
   useEffect,
   type ReactNode,
 } from 'react';
-import type { ScatterPlot, WhereCondition } from 'scatter-anti';
+import type { PointsUpdate, ScatterPlot, WhereCondition } from 'scatter-anti';
 
 interface ScatterPlotState {
   isInitialized: boolean;
@@ -17,6 +17,7 @@ interface ScatterPlotState {
   error: string | null;
   hoveredPoint: { row: unknown[]; columns: string[] } | null;
   pointCount: number | null;
+  visiblePoints: PointsUpdate | null;
 }
 
 interface ScatterPlotContextValue {
@@ -39,6 +40,7 @@ export function ScatterPlotProvider({ children }: { children: ReactNode }) {
     error: null,
     hoveredPoint: null,
     pointCount: null,
+    visiblePoints: null,
   });
 
   const filtersRef = useRef<{
@@ -105,6 +107,10 @@ export function ScatterPlotProvider({ children }: { children: ReactNode }) {
         setState((s) => ({ ...s, error: error.message }));
       });
 
+      plot.on('points', (visiblePoints) => {
+        setState((s) => ({ ...s, visiblePoints }));
+      });
+
       try {
         await plot.initialize();
         plotRef.current = plot;
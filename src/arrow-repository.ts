@@ -0,0 +1,851 @@
+import {
+  DataType,
+  Float64,
+  Precision,
+  Utf8,
+  makeVector,
+  tableFromIPC,
+  vectorFromArray,
+} from 'apache-arrow';
+import type { Table, Vector } from 'apache-arrow';
+import type {
+  CategoriesRequest,
+  ColumnRangeRequest,
+  ColumnStatsRequest,
+  CountRequest,
+  DataRepository,
+  ExpressionTypesRequest,
+  ExtentRequest,
+  HistogramRequest,
+  ParquetData,
+  PointLookupRequest,
+  PointProjection,
+  RepositoryLoadOptions,
+  RepositoryQuery,
+  RowSelection,
+  SummaryRequest,
+  TopValuesRequest,
+  ViewportRequest,
+} from './repository.js';
+import type { DataSource, NumericOperator, WhereCondition } from './types.js';
+import { describeDataSource, detectDataFormat, readDataSource } from './data-source.js';
+import { CodedError } from './errors.js';
+import { colorScaleFunction, sizeScaleFunction } from './encoding.js';
+import { quoteIdentifier } from './sql.js';
+
+const PLAIN_COLUMN_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*|"([^"]|"")+")$/;
+
+/**
+ * In-memory data repository backed by an Apache Arrow table
+ *
+ * Answers the structured requests issued by DataLayer (viewport, point lookup
+ * and extent) in plain JavaScript, without loading DuckDB-WASM. Coordinates and
+ * filters must refer to plain columns; sizeSql and colorSql may be a column or
+ * a numeric literal, and size and color encodings are evaluated directly. Raw SQL
+ * filters and ad-hoc SQL queries are not supported.
+ *
+ * @example
+ * ```ts
+ * const plot = new ScatterPlot({
+ *   canvas,
+ *   repository: new ArrowTableRepository(tableFromArrays({ id, x, y })),
+ *   data: { idColumn: 'id' },
+ * });
+ * ```
+ */
+export class ArrowTableRepository implements DataRepository {
+  private table: Table | null;
+  private numericCache = new Map<string, Float64Array>();
+  private rowById: Map<unknown, number> | null = null;
+  private idColumn: string = '';
+
+  /**
+   * @param table Preloaded table; when omitted, load() reads an Arrow IPC data source
+   */
+  constructor(table?: Table) {
+    this.table = table ?? null;
+  }
+
+  async load(
+    source: DataSource | undefined,
+    idColumn: string,
+    options: RepositoryLoadOptions = {}
+  ): Promise<void> {
+    const { signal, onProgress } = options;
+
+    if (source !== undefined) {
+      let bytes: Uint8Array;
+      try {
+        bytes = await readDataSource(source, {
+          signal,
+          onProgress: (loadedBytes, totalBytes) =>
+            onProgress?.({ phase: 'download', loadedBytes, totalBytes }),
+        });
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        throw new CodedError(
+          'PARQUET_LOAD_FAILED',
+          `Failed to load data from ${describeDataSource(source)}: ${e instanceof Error ? e.message : String(e)}`,
+          { source: describeDataSource(source) }
+        );
+      }
+      signal?.throwIfAborted();
+
+      const format = options.format ?? detectDataFormat(source, bytes);
+      if (format !== 'arrow') {
+        throw new CodedError(
+          'ARROW_PARSE_FAILED',
+          `ArrowTableRepository only reads Arrow IPC data, got ${format}`,
+          { source: describeDataSource(source), format }
+        );
+      }
+
+      onProgress?.({ phase: 'table' });
+      try {
+        this.table = tableFromIPC(bytes);
+      } catch (e) {
+        throw new CodedError(
+          'ARROW_PARSE_FAILED',
+          `Failed to parse Arrow data from ${describeDataSource(source)}: ${e instanceof Error ? e.message : String(e)}`,
+          { source: describeDataSource(source) }
+        );
+      }
+    }
+
+    if (!this.table) {
+      throw new CodedError('PARQUET_LOAD_FAILED', 'No data source provided');
+    }
+
+    this.numericCache.clear();
+    this.rowById = null;
+    this.idColumn = idColumn;
+
+    for (const sql of options.coordinateSql ?? ['x', 'y']) {
+      const column = this.resolveColumn(sql);
+      const type = this.table.getChild(column)?.type;
+      if (!type || !isNumericDataType(type)) {
+        throw new CodedError(
+          'INVALID_COLUMN_TYPE',
+          `Column "${column}" has type ${type} but must be numeric`,
+          { column, type: String(type) }
+        );
+      }
+    }
+    if (!this.table.getChild(idColumn)) {
+      throw new CodedError('INVALID_COLUMN_TYPE', `ID column "${idColumn}" is missing`, {
+        column: idColumn,
+      });
+    }
+
+    onProgress?.({ phase: 'index' });
+  }
+
+  async query(query: RepositoryQuery): Promise<ParquetData> {
+    if (!this.table) {
+      throw new Error('No table loaded. Call load() first.');
+    }
+
+    switch (query.request?.kind) {
+      case 'viewport':
+        return this.queryViewport(query.request);
+      case 'point':
+        return this.queryPoint(query.request);
+      case 'extent':
+        return this.queryExtent(query.request);
+      case 'types':
+        return this.queryTypes(query.request);
+      case 'range':
+        return this.queryRange(query.request);
+      case 'categories':
+        return this.queryCategories(query.request);
+      case 'describe':
+        return this.queryDescribe();
+      case 'column-stats':
+        return this.queryColumnStats(query.request);
+      case 'histogram':
+        return this.queryHistogram(query.request);
+      case 'top-values':
+        return this.queryTopValues(query.request);
+      case 'summary':
+        return this.querySummary(query.request);
+      case 'count':
+        return this.queryCount(query.request);
+      default:
+        throw new Error(`ArrowTableRepository cannot execute SQL: ${query.toString()}`);
+    }
+  }
+
+  async getSchema(): Promise<string[]> {
+    return this.table?.schema.fields.map((field) => field.name) ?? [];
+  }
+
+  async close(): Promise<void> {
+    this.table = null;
+    this.numericCache.clear();
+    this.rowById = null;
+  }
+
+  private queryViewport(request: ViewportRequest): ParquetData {
+    const { projection, bounds, limit, sampling } = request;
+    const offset = request.offset ?? 0;
+    const xs = this.numericColumn(this.resolveColumn(projection.xSql));
+    const ys = this.numericColumn(this.resolveColumn(projection.ySql));
+    const matches = this.compileFilters(request.whereConditions);
+
+    // Plain truncation can stop at the limit; every other strategy ranks all matching rows
+    const scanLimit = sampling.type === 'limit' ? offset + limit : Infinity;
+    let rows: number[] = [];
+    for (let i = 0; i < xs.length && rows.length < scanLimit; i++) {
+      const x = xs[i];
+      const y = ys[i];
+      // Written so that NaN (NULL coordinates) fails, like BETWEEN in SQL
+      if (!(x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY)) continue;
+      if (!matches(i)) continue;
+      rows.push(i);
+    }
+    // Rows past the offset continue the sampling order, so it applies whenever there is one
+    if (sampling.type !== 'limit' && (rows.length > limit || offset > 0)) {
+      rows = this.sampleRows(rows, request);
+    }
+    rows = rows.slice(offset, offset + limit);
+
+    const ids = this.table!.getChild(projection.idColumn)!;
+    const columnData = this.projectRows(projection, rows);
+    columnData.set(
+      projection.idColumn,
+      vectorFromArray(
+        rows.map((i) => ids.get(i)),
+        ids.type
+      )
+    );
+
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: rows.length };
+  }
+
+  private queryPoint(request: PointLookupRequest): ParquetData {
+    const { projection } = request;
+    const table = this.table!;
+
+    if (!this.rowById || this.idColumn !== projection.idColumn) {
+      this.idColumn = projection.idColumn;
+      this.rowById = new Map();
+      const ids = table.getChild(projection.idColumn)!;
+      for (let i = 0; i < ids.length; i++) {
+        this.rowById.set(ids.get(i), i);
+      }
+    }
+
+    const row = this.rowById.get(request.id);
+    const rows = row === undefined ? [] : [row];
+    const slice = table.slice(row ?? 0, row === undefined ? 0 : row + 1);
+
+    const columnData = new Map<string, Vector>();
+    for (const field of slice.schema.fields) {
+      columnData.set(field.name, slice.getChild(field.name)!);
+    }
+    for (const [name, vector] of this.projectRows(projection, rows)) {
+      columnData.set(name, vector);
+    }
+
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: rows.length };
+  }
+
+  private queryExtent(request: ExtentRequest): ParquetData {
+    const xs = this.numericColumn(this.resolveColumn(request.xSql));
+    const ys = this.numericColumn(this.resolveColumn(request.ySql));
+    const matches = this.compileFilters(request.whereConditions);
+
+    const xValues: number[] = [];
+    const yValues: number[] = [];
+    for (let i = 0; i < xs.length; i++) {
+      if (!matches(i)) continue;
+      // Like SQL aggregates, NULLs are skipped per column
+      if (!Number.isNaN(xs[i])) xValues.push(xs[i]);
+      if (!Number.isNaN(ys[i])) yValues.push(ys[i]);
+    }
+
+    const clip = request.clipPercentile;
+    const [minX, maxX] = valueRange(xValues, clip);
+    const [minY, maxY] = valueRange(yValues, clip);
+    const columnData = new Map<string, Vector>([
+      ['min_x', vectorFromArray([minX], new Float64())],
+      ['max_x', vectorFromArray([maxX], new Float64())],
+      ['min_y', vectorFromArray([minY], new Float64())],
+      ['max_y', vectorFromArray([maxY], new Float64())],
+    ]);
+
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: 1 };
+  }
+
+  /**
+   * Types of size/color expressions under the names DuckDB would report
+   */
+  private queryTypes(request: ExpressionTypesRequest): ParquetData {
+    const names: string[] = [];
+    const types: string[] = [];
+    for (const [name, sql] of Object.entries(request.expressions)) {
+      const literal = Number(sql.trim());
+      let type: string;
+      if (sql.trim() !== '' && !Number.isNaN(literal)) {
+        if (!Number.isInteger(literal)) type = 'DOUBLE';
+        else type = literal === (literal | 0) ? 'INTEGER' : 'BIGINT';
+      } else {
+        type = duckDbTypeName(this.table!.getChild(this.resolveColumn(sql))!.type);
+      }
+      names.push(name);
+      types.push(type);
+    }
+
+    const columnData = new Map<string, Vector>([
+      ['column_name', vectorFromArray(names, new Utf8())],
+      ['column_type', vectorFromArray(types, new Utf8())],
+    ]);
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: names.length };
+  }
+
+  private queryRange(request: ColumnRangeRequest): ParquetData {
+    const values = this.numericColumn(this.resolveColumn(quoteIdentifier(request.column)));
+    const [min, max] = valueRange(
+      Array.from(values).filter((v) => !Number.isNaN(v)),
+      0
+    );
+    const columnData = new Map<string, Vector>([
+      ['min', vectorFromArray([min], new Float64())],
+      ['max', vectorFromArray([max], new Float64())],
+    ]);
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: 1 };
+  }
+
+  /**
+   * @param rows Rows to count (default: all rows)
+   */
+  private queryCategories(request: CategoriesRequest, rows?: number[]): ParquetData {
+    const column = this.resolveColumn(quoteIdentifier(request.column));
+    const vector = this.table!.getChild(column)!;
+    // Decimals are returned as doubles, like the CAST the SQL applies to them
+    const decimals = DataType.isDecimal(vector.type) ? this.numericColumn(column) : null;
+    const only = request.values && new Set(request.values.map(String));
+    const counts = new Map<unknown, number>();
+    const rowCount = rows?.length ?? vector.length;
+    for (let r = 0; r < rowCount; r++) {
+      const i = rows ? rows[r] : r;
+      const value = decimals && vector.isValid(i) ? decimals[i] : vector.get(i);
+      if (value == null || (only && !only.has(String(value)))) continue;
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    // By descending count, then by value, like ORDER BY count DESC, value
+    const top = Array.from(counts)
+      .sort(([a, countA], [b, countB]) => countB - countA || compareValues(a, b))
+      .slice(0, request.limit);
+
+    const columnData = new Map<string, Vector>([
+      [
+        'value',
+        vectorFromArray(
+          top.map(([value]) => value),
+          decimals ? new Float64() : vector.type
+        ),
+      ],
+      [
+        'count',
+        vectorFromArray(
+          top.map(([, count]) => count),
+          new Float64()
+        ),
+      ],
+    ]);
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: top.length };
+  }
+
+  /**
+   * Rows matching the filters, inside the bounds when given
+   */
+  private selectRows(selection: RowSelection): number[] {
+    const matches = this.compileFilters(selection.whereConditions);
+    const { bounds } = selection;
+    const xs = bounds && this.numericColumn(this.resolveColumn(selection.xSql));
+    const ys = bounds && this.numericColumn(this.resolveColumn(selection.ySql));
+    const rows: number[] = [];
+    for (let i = 0; i < this.table!.numRows; i++) {
+      if (bounds) {
+        const x = xs![i];
+        const y = ys![i];
+        if (!(x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY)) {
+          continue;
+        }
+      }
+      if (matches(i)) rows.push(i);
+    }
+    return rows;
+  }
+
+  private queryHistogram(request: HistogramRequest): ParquetData {
+    const values = this.numericColumn(this.resolveColumn(quoteIdentifier(request.column)));
+    const [min, max] = request.domain;
+    const width = (max - min) / request.bins || 1;
+    const counts = new Map<number, number>();
+    for (const i of this.selectRows(request)) {
+      const v = values[i];
+      if (!(v >= min && v <= max)) continue;
+      // The top of the domain falls in the last bin, as in the SQL
+      const bin = Math.min(Math.floor((v - min) / width), request.bins - 1);
+      counts.set(bin, (counts.get(bin) ?? 0) + 1);
+    }
+
+    const columnData = new Map<string, Vector>([
+      ['bin', vectorFromArray(Array.from(counts.keys()), new Float64())],
+      ['count', vectorFromArray(Array.from(counts.values()), new Float64())],
+    ]);
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: counts.size };
+  }
+
+  private queryTopValues(request: TopValuesRequest): ParquetData {
+    return this.queryCategories(
+      { kind: 'categories', column: request.column, limit: request.limit },
+      this.selectRows(request)
+    );
+  }
+
+  private querySummary(request: SummaryRequest): ParquetData {
+    const values = this.numericColumn(this.resolveColumn(quoteIdentifier(request.column)));
+    const rows = this.selectRows(request);
+    const present = rows.map((i) => values[i]).filter((v) => !Number.isNaN(v));
+    const [min, max] = valueRange(present, 0);
+    const mean = present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null;
+    const stddev =
+      mean !== null && present.length > 1
+        ? Math.sqrt(present.reduce((a, v) => a + (v - mean) ** 2, 0) / (present.length - 1))
+        : null;
+
+    const columnData = new Map<string, Vector>([
+      ['count', vectorFromArray([rows.length], new Float64())],
+      ['null_count', vectorFromArray([rows.length - present.length], new Float64())],
+      ['min', vectorFromArray([min], new Float64())],
+      ['max', vectorFromArray([max], new Float64())],
+      ['mean', vectorFromArray([mean], new Float64())],
+      ['stddev', vectorFromArray([stddev], new Float64())],
+    ]);
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: 1 };
+  }
+
+  private queryCount(request: CountRequest): ParquetData {
+    const columnData = new Map<string, Vector>([
+      ['count', vectorFromArray([this.selectRows(request).length], new Float64())],
+    ]);
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: 1 };
+  }
+
+  /**
+   * Columns of the table, as DESCRIBE reports them
+   */
+  private queryDescribe(): ParquetData {
+    const fields = this.table!.schema.fields;
+    const columnData = new Map<string, Vector>([
+      [
+        'column_name',
+        vectorFromArray(
+          fields.map((f) => f.name),
+          new Utf8()
+        ),
+      ],
+      [
+        'column_type',
+        vectorFromArray(
+          fields.map((f) => duckDbTypeName(f.type)),
+          new Utf8()
+        ),
+      ],
+      [
+        'null',
+        vectorFromArray(
+          fields.map((f) => (f.nullable ? 'YES' : 'NO')),
+          new Utf8()
+        ),
+      ],
+    ]);
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: fields.length };
+  }
+
+  private queryColumnStats(request: ColumnStatsRequest): ParquetData {
+    const column = this.resolveColumn(quoteIdentifier(request.column));
+    const vector = this.table!.getChild(column)!;
+    const numbers = isNumericDataType(vector.type) ? this.numericColumn(column) : null;
+    const ordered =
+      numbers !== null ||
+      DataType.isUtf8(vector.type) ||
+      DataType.isBool(vector.type) ||
+      DataType.isDate(vector.type) ||
+      DataType.isTimestamp(vector.type);
+
+    let nullCount = 0;
+    let min: unknown = null;
+    let max: unknown = null;
+    const distinct = new Set<unknown>();
+    for (let i = 0; i < vector.length; i++) {
+      if (!vector.isValid(i)) {
+        nullCount++;
+        continue;
+      }
+      const value = numbers ? numbers[i] : vector.get(i);
+      // Dates and timestamps compare and dedupe by epoch milliseconds, nested values by text
+      const key = value instanceof Date ? value.getTime() : ordered ? value : String(value);
+      distinct.add(key);
+      if (!ordered) continue;
+      if (min === null || compareValues(key, min) < 0) min = key;
+      if (max === null || compareValues(key, max) > 0) max = key;
+    }
+
+    const rangeType = numbers ? new Float64() : ordered ? vector.type : new Utf8();
+    const columnData = new Map<string, Vector>([
+      ['min', vectorFromArray([min], rangeType)],
+      ['max', vectorFromArray([max], rangeType)],
+      ['null_count', vectorFromArray([nullCount], new Float64())],
+      ['distinct_count', vectorFromArray([distinct.size], new Float64())],
+    ]);
+    return { columns: Array.from(columnData.keys()), columnData, rowCount: 1 };
+  }
+
+  /**
+   * Order rows by the sampling strategy, mirroring the ORDER BY that DataLayer generates
+   */
+  private sampleRows(rows: number[], request: ViewportRequest): number[] {
+    const { projection, bounds, sampling } = request;
+    const ids = this.table!.getChild(projection.idColumn)!;
+    const hashes = new Map<number, number>();
+    for (const row of rows) {
+      hashes.set(row, hashValue(ids.get(row)));
+    }
+    const byHash = (a: number, b: number) => hashes.get(a)! - hashes.get(b)! || a - b;
+
+    switch (sampling.type) {
+      case 'limit':
+        return rows;
+      case 'hash':
+        return rows.sort(byHash);
+      case 'priority': {
+        const priorities = this.numericColumn(this.resolveColumn(sampling.prioritySql));
+        const sign = sampling.ascending ? 1 : -1;
+        return rows.sort((a, b) => {
+          const pa = priorities[a];
+          const pb = priorities[b];
+          // NULLS LAST
+          if (Number.isNaN(pa) || Number.isNaN(pb)) {
+            return Number(Number.isNaN(pa)) - Number(Number.isNaN(pb)) || byHash(a, b);
+          }
+          return sign * (pa - pb) || byHash(a, b);
+        });
+      }
+      case 'grid': {
+        const gridSize = Math.max(1, Math.floor(sampling.gridSize ?? 32));
+        const xs = this.numericColumn(this.resolveColumn(projection.xSql));
+        const ys = this.numericColumn(this.resolveColumn(projection.ySql));
+        // Positive even for bounds of zero width or height (e.g. a single point)
+        const width = bounds.maxX - bounds.minX || 1;
+        const height = bounds.maxY - bounds.minY || 1;
+
+        // Rank each row within its cell by hash, then order by (rank, hash)
+        const ranks = new Map<number, number>();
+        const cellCounts = new Map<string, number>();
+        for (const row of rows.sort(byHash)) {
+          const cellX = Math.floor(((xs[row] - bounds.minX) * gridSize) / width);
+          const cellY = Math.floor(((ys[row] - bounds.minY) * gridSize) / height);
+          const cell = `${cellX},${cellY}`;
+          const rank = (cellCounts.get(cell) ?? 0) + 1;
+          cellCounts.set(cell, rank);
+          ranks.set(row, rank);
+        }
+        return rows.sort((a, b) => ranks.get(a)! - ranks.get(b)! || byHash(a, b));
+      }
+    }
+  }
+
+  /**
+   * Build the __x__, __y__, __size__ and __color__ columns for the given rows
+   */
+  private projectRows(projection: PointProjection, rows: number[]): Map<string, Vector> {
+    const xs = this.numericColumn(this.resolveColumn(projection.xSql));
+    const ys = this.numericColumn(this.resolveColumn(projection.ySql));
+    const size = projection.sizeScale
+      ? this.scaledValue(projection.sizeScale.field, sizeScaleFunction(projection.sizeScale))
+      : this.numericValue(projection.sizeSql);
+    const color = projection.colorScale
+      ? this.scaledValue(projection.colorScale.field, colorScaleFunction(projection.colorScale))
+      : this.numericValue(projection.colorSql);
+
+    const x = new Float64Array(rows.length);
+    const y = new Float64Array(rows.length);
+    const sizes = new Float64Array(rows.length);
+    const colors = new Int32Array(rows.length);
+    for (let j = 0; j < rows.length; j++) {
+      const i = rows[j];
+      x[j] = xs[i];
+      y[j] = ys[i];
+      sizes[j] = size(i);
+      colors[j] = color(i) | 0;
+    }
+
+    return new Map<string, Vector>([
+      ['__x__', makeVector(x)],
+      ['__y__', makeVector(y)],
+      ['__size__', makeVector(sizes)],
+      ['__color__', makeVector(colors)],
+    ]);
+  }
+
+  /**
+   * Evaluate a size or color expression: a numeric literal (decimal or 0x hex) or a column
+   */
+  private numericValue(sql: string): (row: number) => number {
+    const literal = Number(sql.trim());
+    if (sql.trim() !== '' && !Number.isNaN(literal)) {
+      return () => literal;
+    }
+    const values = this.numericColumn(this.resolveColumn(sql));
+    return (row) => values[row];
+  }
+
+  /**
+   * Evaluate a size or color encoding on its field
+   */
+  private scaledValue(field: string, scale: (value: unknown) => number): (row: number) => number {
+    const column = this.resolveColumn(quoteIdentifier(field));
+    const vector = this.table!.getChild(column)!;
+    if (isNumericDataType(vector.type)) {
+      const values = this.numericColumn(column);
+      return (row) => scale(vector.isValid(row) ? values[row] : null);
+    }
+    return (row) => scale(vector.get(row));
+  }
+
+  /**
+   * Combine the filter conditions into a row predicate (all conditions must match)
+   */
+  private compileFilters(conditions: WhereCondition[]): (row: number) => boolean {
+    const predicates = conditions.map((condition) => this.compileCondition(condition));
+    return (row) => predicates.every((predicate) => predicate(row));
+  }
+
+  /**
+   * Compile one condition into a row predicate
+   */
+  private compileCondition(condition: WhereCondition): (row: number) => boolean {
+    switch (condition.type) {
+      case 'raw':
+        throw new Error(`ArrowTableRepository does not support raw SQL filters: ${condition.sql}`);
+      case 'and':
+        return this.compileFilters(condition.conditions);
+      case 'or': {
+        const predicates = condition.conditions.map((c) => this.compileCondition(c));
+        return (row) => predicates.some((predicate) => predicate(row));
+      }
+      case 'not': {
+        const predicate = this.compileCondition(condition.condition);
+        return (row) => !predicate(row);
+      }
+    }
+
+    const column = condition.column;
+    const vector = this.table!.getChild(column);
+    if (!vector) {
+      throw new Error(`Column "${column}" does not exist`);
+    }
+
+    switch (condition.type) {
+      case 'numeric': {
+        const values = this.numericColumn(column);
+        const { operator, value } = condition;
+        return (row) => compareNumbers(values[row], operator, value);
+      }
+      case 'date': {
+        // Dates and timestamps read as epoch milliseconds
+        const values = this.numericColumn(column);
+        const { operator } = condition;
+        const value = toEpochMillis(condition.value);
+        return (row) => compareNumbers(values[row], operator, value);
+      }
+      case 'between': {
+        const values = this.numericColumn(column);
+        const min = toEpochMillis(condition.min);
+        const max = toEpochMillis(condition.max);
+        return (row) => values[row] >= min && values[row] <= max;
+      }
+      case 'boolean': {
+        const value = condition.value ?? true;
+        return (row) => vector.get(row) === value;
+      }
+      case 'null': {
+        const isNull = condition.isNull ?? true;
+        return (row) => vector.isValid(row) !== isNull;
+      }
+      case 'in': {
+        if (isNumericDataType(vector.type)) {
+          const values = this.numericColumn(column);
+          const set = new Set(condition.values.map(Number));
+          return (row) => set.has(values[row]);
+        }
+        const set = new Set(condition.values.map(String));
+        return (row) => vector.isValid(row) && set.has(String(vector.get(row)));
+      }
+      case 'string': {
+        const fold = (text: string) => (condition.caseInsensitive ? text.toLowerCase() : text);
+        const value = fold(condition.value);
+        const text = (row: number): string | null => {
+          const v = vector.get(row);
+          return v == null ? null : fold(String(v));
+        };
+        switch (condition.operator) {
+          case 'equals':
+            return (row) => text(row) === value;
+          case 'contains':
+            return (row) => text(row)?.includes(value) ?? false;
+          case 'startsWith':
+            return (row) => text(row)?.startsWith(value) ?? false;
+          case 'endsWith':
+            return (row) => text(row)?.endsWith(value) ?? false;
+        }
+      }
+    }
+  }
+
+  /**
+   * Map a plain (optionally double-quoted) column reference to a column name
+   */
+  private resolveColumn(sql: string): string {
+    const trimmed = sql.trim();
+    if (!PLAIN_COLUMN_PATTERN.test(trimmed)) {
+      throw new Error(
+        `ArrowTableRepository only supports plain column references, got "${trimmed}"`
+      );
+    }
+    const column = trimmed.startsWith('"') ? trimmed.slice(1, -1).replace(/""/g, '"') : trimmed;
+    if (!this.table?.getChild(column)) {
+      throw new Error(`Column "${column}" does not exist`);
+    }
+    return column;
+  }
+
+  /**
+   * Get a column as doubles (NULL as NaN), converting it once
+   */
+  private numericColumn(column: string): Float64Array {
+    let values = this.numericCache.get(column);
+    if (!values) {
+      const vector = this.table!.getChild(column)!;
+      // Decimals are read as unscaled integers
+      const divisor = DataType.isDecimal(vector.type) ? 10 ** vector.type.scale : 1;
+      values = new Float64Array(vector.length);
+      for (let i = 0; i < vector.length; i++) {
+        const v = vector.get(i);
+        values[i] = v == null ? NaN : Number(v) / divisor;
+      }
+      this.numericCache.set(column, values);
+    }
+    return values;
+  }
+}
+
+/**
+ * Deterministic 32-bit hash of a value's string form (FNV-1a with a Murmur3 finalizer)
+ */
+function hashValue(value: unknown): number {
+  const text = String(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // MurmurHash3 finalizer, so that similar short strings (sequential ids) spread evenly
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function compareNumbers(a: number, operator: NumericOperator, b: number): boolean {
+  switch (operator) {
+    case '>=':
+      return a >= b;
+    case '>':
+      return a > b;
+    case '<=':
+      return a <= b;
+    case '<':
+      return a < b;
+    case '=':
+      return a === b;
+    case '!=':
+      // NULL (NaN) matches no comparison, as in SQL
+      return !Number.isNaN(a) && a !== b;
+  }
+}
+
+/**
+ * Order two values of the same column (numbers, bigints, strings or booleans)
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const x = a as number;
+  const y = b as number;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function toEpochMillis(value: number | Date | string): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') return Date.parse(value);
+  return value;
+}
+
+function isNumericDataType(type: DataType): boolean {
+  return DataType.isInt(type) || DataType.isFloat(type) || DataType.isDecimal(type);
+}
+
+/**
+ * DuckDB name of an Arrow type, for the types DuckDB maps them to on import
+ */
+function duckDbTypeName(type: DataType): string {
+  if (DataType.isInt(type)) {
+    const name = { 8: 'TINYINT', 16: 'SMALLINT', 32: 'INTEGER', 64: 'BIGINT' }[type.bitWidth];
+    return type.isSigned ? name : `U${name}`;
+  }
+  if (DataType.isFloat(type)) {
+    return type.precision === Precision.DOUBLE ? 'DOUBLE' : 'FLOAT';
+  }
+  if (DataType.isDecimal(type)) {
+    return `DECIMAL(${type.precision},${type.scale})`;
+  }
+  if (DataType.isDictionary(type)) return duckDbTypeName(type.dictionary);
+  if (DataType.isUtf8(type)) return 'VARCHAR';
+  if (DataType.isBool(type)) return 'BOOLEAN';
+  if (DataType.isDate(type)) return 'DATE';
+  if (DataType.isTimestamp(type)) return 'TIMESTAMP';
+  return type.toString().toUpperCase();
+}
+
+/**
+ * Min and max of the values, or the given lower/upper percentiles (linear
+ * interpolation, like quantile_cont). Null when there are no values.
+ */
+function valueRange(values: number[], clipPercentile: number): [number | null, number | null] {
+  if (values.length === 0) {
+    return [null, null];
+  }
+  if (clipPercentile <= 0) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const v of values) {
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    return [min, max];
+  }
+
+  const sorted = Float64Array.from(values).sort();
+  const quantile = (q: number) => {
+    const position = q * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  };
+  return [quantile(clipPercentile), quantile(1 - clipPercentile)];
+}
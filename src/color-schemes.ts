@@ -0,0 +1,180 @@
+/**
+ * Built-in palettes for color encodings
+ *
+ * Colors are CSS hex strings. Continuous schemes are given as evenly spaced
+ * stops and interpolated linearly in sRGB.
+ */
+
+/** Perceptually uniform colormaps (matplotlib), sampled at 11 stops (cividis at 10) */
+export const COLOR_SCHEMES = {
+  viridis: [
+    '#440154',
+    '#482475',
+    '#414487',
+    '#355f8d',
+    '#2a788e',
+    '#21918c',
+    '#22a884',
+    '#44bf70',
+    '#7ad151',
+    '#bddf26',
+    '#fde725',
+  ],
+  magma: [
+    '#000004',
+    '#140e36',
+    '#3b0f70',
+    '#641a80',
+    '#8c2981',
+    '#b73779',
+    '#de4968',
+    '#f7705c',
+    '#fe9f6d',
+    '#fecf92',
+    '#fcfdbf',
+  ],
+  inferno: [
+    '#000004',
+    '#160b39',
+    '#420a68',
+    '#6a176e',
+    '#932667',
+    '#bc3754',
+    '#dd513a',
+    '#f37819',
+    '#fca50a',
+    '#f6d746',
+    '#fcffa4',
+  ],
+  plasma: [
+    '#0d0887',
+    '#41049d',
+    '#6a00a8',
+    '#8f0da4',
+    '#b12a90',
+    '#cc4778',
+    '#e16462',
+    '#f2844b',
+    '#fca636',
+    '#fcce25',
+    '#f0f921',
+  ],
+  cividis: [
+    '#00224e',
+    '#123570',
+    '#3b496c',
+    '#575d6d',
+    '#707173',
+    '#8a8779',
+    '#a69d75',
+    '#c4b56c',
+    '#e4cf5b',
+    '#fee838',
+  ],
+} as const;
+
+/** Categorical palettes with distinct hues */
+export const CATEGORICAL_PALETTES = {
+  tableau10: [
+    '#4e79a7',
+    '#f28e2c',
+    '#e15759',
+    '#76b7b2',
+    '#59a14f',
+    '#edc949',
+    '#af7aa1',
+    '#ff9da7',
+    '#9c755f',
+    '#bab0ab',
+  ],
+  category10: [
+    '#1f77b4',
+    '#ff7f0e',
+    '#2ca02c',
+    '#d62728',
+    '#9467bd',
+    '#8c564b',
+    '#e377c2',
+    '#7f7f7f',
+    '#bcbd22',
+    '#17becf',
+  ],
+  /** Okabe-Ito, distinguishable with common forms of color vision deficiency */
+  okabeIto: [
+    '#e69f00',
+    '#56b4e9',
+    '#009e73',
+    '#f0e442',
+    '#0072b2',
+    '#d55e00',
+    '#cc79a7',
+    '#000000',
+  ],
+} as const;
+
+export type ColorSchemeName = keyof typeof COLOR_SCHEMES;
+export type CategoricalPaletteName = keyof typeof CATEGORICAL_PALETTES;
+
+/**
+ * Parse "#rgb" or "#rrggbb" into [r, g, b] (0-255)
+ */
+export function parseHexColor(color: string): [number, number, number] {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) {
+    throw new Error(`Invalid color "${color}": expected #rgb or #rrggbb`);
+  }
+  const hex =
+    match[1].length === 3
+      ? match[1]
+          .split('')
+          .map((c) => c + c)
+          .join('')
+      : match[1];
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Pack channels (0-255) and opacity (0-1) into the signed 32-bit ARGB integer used by __color__
+ */
+function packArgb(r: number, g: number, b: number, opacity: number): number {
+  const a = Math.round(Math.max(0, Math.min(1, opacity)) * 255);
+  return (a << 24) | (Math.round(r) << 16) | (Math.round(g) << 8) | Math.round(b);
+}
+
+/**
+ * Convert a hex color and opacity (0-1) into a signed 32-bit ARGB integer
+ */
+export function toArgb(color: string, opacity: number = 1): number {
+  const [r, g, b] = parseHexColor(color);
+  return packArgb(r, g, b, opacity);
+}
+
+/**
+ * Sample a continuous scheme into `count` evenly spaced ARGB colors
+ */
+export function sampleScheme(
+  stops: readonly string[],
+  count: number,
+  opacity: number = 1
+): number[] {
+  const rgb = stops.map(parseHexColor);
+  const colors: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const t = count > 1 ? (i / (count - 1)) * (rgb.length - 1) : 0;
+    const lower = Math.min(Math.floor(t), rgb.length - 1);
+    const upper = Math.min(lower + 1, rgb.length - 1);
+    const f = t - lower;
+    const [r, g, b] = [0, 1, 2].map((c) => rgb[lower][c] + (rgb[upper][c] - rgb[lower][c]) * f);
+    colors.push(packArgb(r, g, b, opacity));
+  }
+  return colors;
+}
+
+/**
+ * CSS rgba() string of a signed 32-bit ARGB integer
+ */
+export function argbToCss(argb: number): string {
+  const a = ((argb >>> 24) & 0xff) / 255;
+  return `rgba(${(argb >>> 16) & 0xff}, ${(argb >>> 8) & 0xff}, ${argb & 0xff}, ${Number(a.toFixed(3))})`;
+}
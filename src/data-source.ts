@@ -0,0 +1,197 @@
+import type { DataFormat, DataSource } from './types.js';
+
+export interface ReadDataSourceOptions {
+  /** Cancels the fetch or stream read */
+  signal?: AbortSignal;
+  /** Called after each chunk with the bytes read so far and the total size when known */
+  onProgress?: (loadedBytes: number, totalBytes?: number) => void;
+}
+
+/**
+ * Read a data source fully into memory
+ *
+ * URLs are fetched and Blobs (including Files) are streamed, reporting progress
+ * per chunk; in-memory buffers are copied, because DuckDB-WASM takes over
+ * (detaches) the buffer it is given.
+ */
+export async function readDataSource(
+  source: DataSource,
+  options: ReadDataSourceOptions = {}
+): Promise<Uint8Array> {
+  options.signal?.throwIfAborted();
+
+  if (typeof source === 'string' || source instanceof URL) {
+    const response = await fetch(source, { signal: options.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    // Content-Length is the encoded size, so it is only an estimate for compressed responses
+    const contentLength = Number(response.headers.get('Content-Length'));
+    const totalBytes = contentLength > 0 ? contentLength : undefined;
+    if (!response.body) {
+      const buffer = new Uint8Array(await response.arrayBuffer());
+      options.onProgress?.(buffer.byteLength, totalBytes);
+      return buffer;
+    }
+    return await readStream(response.body, totalBytes, options);
+  }
+
+  if (source instanceof Uint8Array || source instanceof ArrayBuffer) {
+    const buffer = source instanceof Uint8Array ? source.slice() : new Uint8Array(source.slice(0));
+    options.onProgress?.(buffer.byteLength, buffer.byteLength);
+    return buffer;
+  }
+
+  if (source instanceof Blob) {
+    return await readStream(source.stream(), source.size, options);
+  }
+
+  return await readStream(source, undefined, options);
+}
+
+/**
+ * Drain a ReadableStream into a single contiguous buffer
+ */
+async function readStream(
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number | undefined,
+  options: ReadDataSourceOptions
+): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalLength = 0;
+
+  const onAbort = () => {
+    reader.cancel().catch(() => {});
+  };
+  options.signal?.addEventListener('abort', onAbort);
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      options.signal?.throwIfAborted();
+      if (done) break;
+      chunks.push(value);
+      totalLength += value.byteLength;
+      options.onProgress?.(totalLength, totalBytes);
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+
+  const buffer = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer;
+}
+
+/**
+ * Short human-readable description of a data source for error messages
+ */
+export function describeDataSource(source: DataSource): string {
+  if (typeof source === 'string') return source;
+  if (source instanceof URL) return source.href;
+  if (typeof File !== 'undefined' && source instanceof File) return `File(${source.name})`;
+  if (source instanceof Blob) return `Blob(${source.size} bytes)`;
+  if (source instanceof Uint8Array || source instanceof ArrayBuffer) {
+    return `Buffer(${source.byteLength} bytes)`;
+  }
+  return 'ReadableStream';
+}
+
+const EXTENSION_FORMATS: Record<string, DataFormat> = {
+  parquet: 'parquet',
+  pq: 'parquet',
+  csv: 'csv',
+  tsv: 'csv',
+  arrow: 'arrow',
+  arrows: 'arrow',
+  feather: 'arrow',
+  ipc: 'arrow',
+  json: 'json',
+  jsonl: 'json',
+  ndjson: 'json',
+};
+
+/**
+ * Detect the format of a data source
+ *
+ * The file extension (URL path or File name) wins when it is recognized;
+ * otherwise the leading bytes are inspected. Anything that is not Parquet,
+ * Arrow IPC or JSON is treated as CSV.
+ */
+export function detectDataFormat(source: DataSource, bytes: Uint8Array): DataFormat {
+  const fromExtension = formatFromExtension(source);
+  if (fromExtension) {
+    return fromExtension;
+  }
+
+  // Parquet files start with "PAR1"
+  if (startsWithAscii(bytes, 'PAR1')) {
+    return 'parquet';
+  }
+
+  // Arrow IPC files start with "ARROW1"; IPC streams start with a 0xFFFFFFFF continuation marker
+  if (
+    startsWithAscii(bytes, 'ARROW1') ||
+    (bytes.length >= 4 &&
+      bytes[0] === 0xff &&
+      bytes[1] === 0xff &&
+      bytes[2] === 0xff &&
+      bytes[3] === 0xff)
+  ) {
+    return 'arrow';
+  }
+
+  // JSON documents and newline-delimited JSON start with an object or array
+  for (let i = 0; i < bytes.length; i++) {
+    const c = bytes[i];
+    // Skip whitespace and a UTF-8 byte order mark
+    if (
+      c === 0x20 ||
+      c === 0x09 ||
+      c === 0x0a ||
+      c === 0x0d ||
+      c === 0xef ||
+      c === 0xbb ||
+      c === 0xbf
+    ) {
+      continue;
+    }
+    return c === 0x7b || c === 0x5b ? 'json' : 'csv';
+  }
+
+  return 'csv';
+}
+
+function formatFromExtension(source: DataSource): DataFormat | null {
+  let name: string | null = null;
+  if (typeof source === 'string') {
+    name = source.split(/[?#]/)[0];
+  } else if (source instanceof URL) {
+    name = source.pathname;
+  } else if (typeof File !== 'undefined' && source instanceof File) {
+    name = source.name;
+  }
+
+  const match = name?.match(/\.([a-z0-9]+)$/i);
+  if (!match) {
+    return null;
+  }
+  return EXTENSION_FORMATS[match[1].toLowerCase()] ?? null;
+}
+
+function startsWithAscii(bytes: Uint8Array, text: string): boolean {
+  if (bytes.length < text.length) {
+    return false;
+  }
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[i] !== text.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,253 @@
+import type { CategoricalColorEncoding, QuantitativeColorEncoding, SizeEncoding } from './types.js';
+import type { SqlValue } from './sql.js';
+import { quoteIdentifier, sqlLiteral } from './sql.js';
+import { CATEGORICAL_PALETTES, COLOR_SCHEMES, sampleScheme, toArgb } from './color-schemes.js';
+
+/** Number of colors a continuous colormap is sampled into */
+const COLOR_LUT_SIZE = 256;
+
+const DEFAULT_OTHER_COLOR = '#bab0ab';
+
+/** Categorical color encoding with its categories resolved */
+export interface CategoricalColorScale {
+  type: 'categorical';
+  field: string;
+  categories: SqlValue[];
+  /** ARGB color of each category */
+  colors: number[];
+  otherColor: number;
+  /** Rows per category in the whole table, when known */
+  counts?: number[];
+}
+
+/** Quantitative color encoding with its domain resolved and colormap sampled */
+export interface QuantitativeColorScale {
+  type: 'quantitative';
+  field: string;
+  domain: [number, number];
+  /** Evenly spaced ARGB colors from domain[0] to domain[1] */
+  colors: number[];
+  nullColor: number;
+}
+
+/** A color encoding ready to be evaluated, in SQL or in JavaScript */
+export type ColorScale = CategoricalColorScale | QuantitativeColorScale;
+
+/** Size encoding with its domain resolved */
+export interface SizeScale {
+  field: string;
+  scale: 'linear' | 'log' | 'sqrt';
+  domain: [number, number];
+  range: [number, number];
+  nullSize: number;
+}
+
+/**
+ * Palette colors of a categorical encoding
+ */
+export function categoricalPalette(encoding: CategoricalColorEncoding): readonly string[] {
+  const palette = encoding.palette ?? 'tableau10';
+  if (typeof palette !== 'string') {
+    return palette;
+  }
+  if (!(palette in CATEGORICAL_PALETTES)) {
+    throw new Error(`Unknown palette "${palette}"`);
+  }
+  return CATEGORICAL_PALETTES[palette];
+}
+
+/**
+ * Resolve a categorical encoding; categories beyond the palette length get otherColor
+ */
+export function categoricalColorScale(
+  encoding: CategoricalColorEncoding,
+  categories: SqlValue[],
+  counts?: number[]
+): CategoricalColorScale {
+  const palette = categoricalPalette(encoding);
+  const opacity = encoding.opacity ?? 1;
+  const kept = categories.slice(0, palette.length);
+  return {
+    type: 'categorical',
+    field: encoding.field,
+    categories: kept,
+    colors: kept.map((_, i) => toArgb(palette[i], opacity)),
+    otherColor: toArgb(encoding.otherColor ?? DEFAULT_OTHER_COLOR, opacity),
+    counts: counts?.slice(0, palette.length),
+  };
+}
+
+/**
+ * Resolve a quantitative encoding over the given domain
+ */
+export function quantitativeColorScale(
+  encoding: QuantitativeColorEncoding,
+  domain: [number, number]
+): QuantitativeColorScale {
+  const scheme = encoding.scheme ?? 'viridis';
+  if (typeof scheme === 'string' && !(scheme in COLOR_SCHEMES)) {
+    throw new Error(`Unknown color scheme "${scheme}"`);
+  }
+  const stops = typeof scheme === 'string' ? COLOR_SCHEMES[scheme] : scheme;
+  if (stops.length === 0) {
+    throw new Error('A color scheme needs at least one color');
+  }
+  const opacity = encoding.opacity ?? 1;
+  const colors = sampleScheme(stops, COLOR_LUT_SIZE, opacity);
+  return {
+    type: 'quantitative',
+    field: encoding.field,
+    domain,
+    colors: encoding.reverse ? colors.reverse() : colors,
+    nullColor: toArgb(encoding.nullColor ?? DEFAULT_OTHER_COLOR, opacity),
+  };
+}
+
+/**
+ * SQL expression computing the ARGB color of each row
+ */
+export function colorScaleSql(scale: ColorScale): string {
+  const column = quoteIdentifier(scale.field);
+  if (scale.type === 'categorical') {
+    if (scale.categories.length === 0) {
+      return String(scale.otherColor);
+    }
+    const cases = scale.categories
+      .map((value, i) => `WHEN ${sqlLiteral(value)} THEN ${scale.colors[i]}`)
+      .join(' ');
+    return `CASE ${column} ${cases} ELSE ${scale.otherColor} END`;
+  }
+
+  const [min, max] = scale.domain;
+  const t = `LEAST(GREATEST((CAST(${column} AS DOUBLE) - ${min}) / ${max - min || 1}, 0), 1)`;
+  const index = `1 + CAST(floor(${t} * ${scale.colors.length - 1} + 0.5) AS INTEGER)`;
+  // Checked first, since GREATEST and LEAST skip NULL arguments
+  return `CASE WHEN ${column} IS NULL THEN ${scale.nullColor} ELSE [${scale.colors.join(', ')}][${index}] END`;
+}
+
+/**
+ * Function computing the ARGB color of a field value, matching colorScaleSql
+ */
+export function colorScaleFunction(scale: ColorScale): (value: unknown) => number {
+  if (scale.type === 'categorical') {
+    // Keys by string form, so that BIGINT values match numeric categories
+    const colorByValue = new Map(
+      scale.categories.map((value, i) => [String(value), scale.colors[i]])
+    );
+    return (value) =>
+      value == null ? scale.otherColor : (colorByValue.get(String(value)) ?? scale.otherColor);
+  }
+
+  const [min, max] = scale.domain;
+  const span = max - min || 1;
+  const last = scale.colors.length - 1;
+  return (value) => {
+    if (value == null) {
+      return scale.nullColor;
+    }
+    const v = Number(value);
+    // DuckDB sorts NaN above all numbers, so it clamps to the top of the range
+    const t = Number.isNaN(v) ? 1 : Math.max(0, Math.min(1, (v - min) / span));
+    return scale.colors[Math.round(t * last)];
+  };
+}
+
+/**
+ * Resolve a size encoding over the given domain
+ */
+export function buildSizeScale(encoding: SizeEncoding, domain: [number, number]): SizeScale {
+  const [min, max] = encoding.range;
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    throw new Error('A size range needs two finite sizes');
+  }
+  return {
+    field: encoding.field,
+    scale: encoding.scale ?? 'linear',
+    domain,
+    range: [min, max],
+    nullSize: encoding.nullSize ?? min,
+  };
+}
+
+/**
+ * Offset added to values before the log or sqrt transform, so that the whole
+ * domain is in the transform's range (log domains start at 1, sqrt at 0)
+ */
+function transformOffset(scale: SizeScale): number {
+  const [min] = scale.domain;
+  if (scale.scale === 'log') return min > 0 ? 0 : 1 - min;
+  if (scale.scale === 'sqrt') return min >= 0 ? 0 : -min;
+  return 0;
+}
+
+/**
+ * The scale transform as a JS function and as SQL
+ */
+function transform(scale: SizeScale): { apply: (v: number) => number; sql: (v: string) => string } {
+  const offset = transformOffset(scale);
+  switch (scale.scale) {
+    case 'log':
+      return { apply: (v) => Math.log(v + offset), sql: (v) => `ln(${v} + ${offset})` };
+    case 'sqrt':
+      return { apply: (v) => Math.sqrt(v + offset), sql: (v) => `sqrt(${v} + ${offset})` };
+    case 'linear':
+      return { apply: (v) => v, sql: (v) => v };
+  }
+}
+
+/**
+ * SQL expression computing the size of each row
+ */
+export function sizeScaleSql(scale: SizeScale): string {
+  const column = quoteIdentifier(scale.field);
+  const [min, max] = scale.domain;
+  const [sizeMin, sizeMax] = scale.range;
+  const { apply, sql } = transform(scale);
+  const start = apply(min);
+  const span = apply(max) - start || 1;
+  const clamped = `LEAST(GREATEST(CAST(${column} AS DOUBLE), ${min}), ${max})`;
+  // Checked first, since GREATEST and LEAST skip NULL arguments
+  return (
+    `CASE WHEN ${column} IS NULL THEN ${scale.nullSize} ` +
+    `ELSE ${sizeMin} + ${sizeMax - sizeMin} * (${sql(clamped)} - ${start}) / ${span} END`
+  );
+}
+
+/**
+ * Function computing the size of a field value, matching sizeScaleSql
+ */
+export function sizeScaleFunction(scale: SizeScale): (value: unknown) => number {
+  const [min, max] = scale.domain;
+  const [sizeMin, sizeMax] = scale.range;
+  const { apply } = transform(scale);
+  const start = apply(min);
+  const span = apply(max) - start || 1;
+  return (value) => {
+    if (value == null) {
+      return scale.nullSize;
+    }
+    const v = Number(value);
+    // DuckDB sorts NaN above all numbers, so it clamps to the top of the domain
+    const clamped = Number.isNaN(v) ? max : Math.max(min, Math.min(max, v));
+    return sizeMin + ((sizeMax - sizeMin) * (apply(clamped) - start)) / span;
+  };
+}
+
+/**
+ * About `count` round values spanning [min, max] (steps of 1, 2 or 5 times a power of ten)
+ */
+export function niceTicks(min: number, max: number, count: number = 5): number[] {
+  if (!(max > min) || !Number.isFinite(min) || !Number.isFinite(max)) {
+    return Number.isFinite(min) ? [min] : [];
+  }
+  const rough = (max - min) / count;
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const error = rough / power;
+  const step = power * (error >= 7.5 ? 10 : error >= 3.5 ? 5 : error >= 1.5 ? 2 : 1);
+  const ticks: number[] = [];
+  for (let i = Math.ceil(min / step); i * step <= max + step * 1e-9; i++) {
+    // toPrecision drops float noise such as 0.30000000000000004
+    ticks.push(Number((i * step).toPrecision(12)));
+  }
+  return ticks;
+}
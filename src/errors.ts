@@ -12,7 +12,13 @@ const categoryMap: Record<ErrorCode, ErrorCategory> = {
   // Data errors
   DATA_LAYER_NOT_INITIALIZED: 'data',
   PARQUET_LOAD_FAILED: 'data',
+  CSV_PARSE_FAILED: 'data',
+  ARROW_PARSE_FAILED: 'data',
+  JSON_PARSE_FAILED: 'data',
+  INVALID_COLUMN_TYPE: 'data',
+  LOAD_ABORTED: 'data',
   QUERY_FAILED: 'query',
+  INVALID_EXPRESSION: 'query',
   // Label errors
   LABEL_FETCH_FAILED: 'label',
   LABEL_PARSE_FAILED: 'label',
@@ -31,10 +37,16 @@ const severityMap: Record<ErrorCode, ErrorSeverity> = {
   WEBGPU_CONTEXT_FAILED: 'fatal',
   DATA_LAYER_NOT_INITIALIZED: 'fatal',
   PARQUET_LOAD_FAILED: 'fatal',
+  CSV_PARSE_FAILED: 'fatal',
+  ARROW_PARSE_FAILED: 'fatal',
+  JSON_PARSE_FAILED: 'fatal',
+  INVALID_COLUMN_TYPE: 'fatal',
   // Regular errors - operation failed but app can continue
   QUERY_FAILED: 'error',
+  INVALID_EXPRESSION: 'error',
   NETWORK_ERROR: 'error',
   // Warnings - non-critical issues
+  LOAD_ABORTED: 'warning',
   LABEL_FETCH_FAILED: 'warning',
   LABEL_PARSE_FAILED: 'warning',
 };
@@ -74,3 +86,19 @@ export function createError(
     timestamp: Date.now(),
   };
 }
+
+/**
+ * Error carrying a known error code, thrown by internal modules so that
+ * callers can convert it into a ScatterPlotError without inspecting the message.
+ */
+export class CodedError extends Error {
+  readonly code: ErrorCode;
+  readonly context?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, context?: Record<string, unknown>) {
+    super(message);
+    this.name = 'CodedError';
+    this.code = code;
+    this.context = context;
+  }
+}
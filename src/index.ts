@@ -6,13 +6,61 @@ export { ScatterPlot } from './scatter-plot.js';
 export type {
   ColorRGBA,
   ScatterPlotOptions,
+  DataSource,
+  DataFormat,
+  LoadOptions,
+  FitOptions,
+  TileOptions,
+  ViewportCacheOptions,
+  ViewportCacheStats,
+  QuerySchedulingOptions,
+  ProgressiveOptions,
+  LoadPhase,
+  LoadProgress,
+  PointsUpdate,
+  OperationOptions,
+  DuckDBOptions,
   Label,
+  LabelFeature,
+  LabelFeatureCollection,
   WhereCondition,
   NumericFilter,
   StringFilter,
+  DateFilter,
+  BooleanFilter,
+  InFilter,
+  BetweenFilter,
+  NullFilter,
+  AndFilter,
+  OrFilter,
+  NotFilter,
   RawSqlFilter,
   NumericOperator,
   StringOperator,
+  SamplingStrategy,
+  LimitSampling,
+  HashSampling,
+  PrioritySampling,
+  GridSampling,
+  ColorEncoding,
+  CategoricalColorEncoding,
+  QuantitativeColorEncoding,
+  SizeEncoding,
+  Legend,
+  LegendOptions,
+  LegendCategory,
+  CategoricalLegend,
+  GradientLegend,
+  SizeLegend,
+  ColumnInfo,
+  ColumnStats,
+  AggregateKind,
+  AggregateScope,
+  AggregateOptions,
+  AggregateResultMap,
+  AggregateStats,
+  HistogramBin,
+  TopKValue,
   // Error handling types
   ErrorSeverity,
   ErrorCategory,
@@ -21,6 +69,44 @@ export type {
   ScatterPlotEventMap,
 } from './types.js';
 
+export { ArrowTableRepository } from './arrow-repository.js';
+export { RemoteSqlRepository } from './remote-repository.js';
+export type { RemoteSqlRepositoryOptions } from './remote-repository.js';
+export type {
+  DataRepository,
+  RepositoryLoadOptions,
+  RepositoryQuery,
+  QueryRequest,
+  ViewportRequest,
+  PointLookupRequest,
+  ExtentRequest,
+  ExpressionTypesRequest,
+  ColumnRangeRequest,
+  CategoriesRequest,
+  DescribeRequest,
+  ColumnStatsRequest,
+  RowSelection,
+  HistogramRequest,
+  TopValuesRequest,
+  SummaryRequest,
+  CountRequest,
+  PointProjection,
+  ParquetData,
+} from './repository.js';
+
+export { createQueryScheduler } from './query-scheduler.js';
+export type { QueryScheduler } from './query-scheduler.js';
+
+export { COLOR_SCHEMES, CATEGORICAL_PALETTES } from './color-schemes.js';
+export type { ColorSchemeName, CategoricalPaletteName } from './color-schemes.js';
+export { colorScaleFunction, sizeScaleFunction } from './encoding.js';
+export type {
+  ColorScale,
+  CategoricalColorScale,
+  QuantitativeColorScale,
+  SizeScale,
+} from './encoding.js';
+
 export { diagnoseWebGPU } from './diagnostics.js';
 export type { WebGPUDiagnostics } from './diagnostics.js';
 
@@ -1,18 +1,153 @@
-import type { ParquetData, ParquetReader } from '../repository.js';
-import { createParquetReader } from '../repository.js';
-import type { WhereCondition, ScatterPlotError } from '../types.js';
-import { createError } from '../errors.js';
+import type {
+  DataRepository,
+  ParquetData,
+  PointProjection,
+  RepositoryLoadOptions,
+  RowSelection,
+} from '../repository.js';
+import type {
+  WhereCondition,
+  ScatterPlotError,
+  DataSource,
+  FitOptions,
+  DuckDBOptions,
+  SamplingStrategy,
+  TileOptions,
+  ColorEncoding,
+  SizeEncoding,
+  Legend,
+  LegendCategory,
+  CategoricalLegend,
+  GradientLegend,
+  SizeLegend,
+  ColumnInfo,
+  ColumnStats,
+  AggregateKind,
+  AggregateOptions,
+  AggregateResultMap,
+  AggregateStats,
+  HistogramBin,
+  TopKValue,
+  ViewportCacheOptions,
+  ViewportCacheStats,
+  QuerySchedulingOptions,
+  ProgressiveOptions,
+  LabelFeatureCollection,
+} from '../types.js';
+import { CodedError, createError } from '../errors.js';
+import {
+  isIntegerType,
+  isNumericType,
+  likePattern,
+  quoteIdentifier,
+  sqlLiteral,
+  timestampLiteral,
+} from '../sql.js';
+import type { SqlValue } from '../sql.js';
+import type { TilePyramidSpec } from '../tile-pyramid.js';
+import { createQueryScheduler } from '../query-scheduler.js';
+import { PointIndex } from '../point-index.js';
+import type { QueryScheduler } from '../query-scheduler.js';
+import type { ColorScale, SizeScale } from '../encoding.js';
+import {
+  categoricalColorScale,
+  categoricalPalette,
+  colorScaleSql,
+  quantitativeColorScale,
+  buildSizeScale,
+  niceTicks,
+  sizeScaleFunction,
+  sizeScaleSql,
+} from '../encoding.js';
+import { argbToCss } from '../color-schemes.js';
+import { INSTANCE_STRIDE, PointPacker } from '../point-packer.js';
+import { ViewportCache, uncoveredStrips } from '../viewport-cache.js';
+import type { CachedViewport } from '../viewport-cache.js';
+import {
+  TILE_LEVEL_COLUMN,
+  chooseTileLevel,
+  tileKey,
+  tileWhereSql,
+  tilesExtent,
+  tilesInBounds,
+} from '../tile-pyramid.js';
 
 export interface DataLayerOptions {
   visiblePointLimit?: number;
+  xSql?: string;
+  ySql?: string;
   sizeSql?: string;
+  /** Initial size encoding; change it later with setSizeEncoding() */
+  size?: SizeEncoding;
   colorSql?: string;
+  /** Initial color encoding; change it later with setColorEncoding() */
+  color?: ColorEncoding;
   whereConditions?: WhereCondition[];
+  sampling?: SamplingStrategy;
   idColumn: string;
+  autoFit?: boolean | FitOptions;
+  tiles?: boolean | TileOptions;
+  /** Pack points in a Web Worker (default: true, packs on the main thread where workers are unavailable) */
+  useWorker?: boolean;
+  cache?: boolean | ViewportCacheOptions;
+  scheduling?: QuerySchedulingOptions | QueryScheduler;
+  /** Extra fraction of the view queried on each side (default: 0.5) */
+  viewportMargin?: number;
+  progressive?: boolean | ProgressiveOptions;
+  /** Backend to query instead of the default DuckDB-WASM ParquetReader */
+  repository?: DataRepository;
+  duckdb?: DuckDBOptions;
   /** Callback to emit errors to ScatterPlot */
   onError?: (error: ScatterPlotError) => void;
 }
 
+const DEFAULT_VIEWPORT_CACHE_SIZE = 8;
+const DEFAULT_VIEWPORT_MARGIN = 0.5; // 50% extra on each side
+
+// Columns with at most this many distinct values get topValues in their stats
+const TOP_VALUES_MAX_DISTINCT = 100;
+const TOP_VALUES_COUNT = 20;
+
+/**
+ * Read value/count rows, with numbers as doubles and dates and timestamps
+ * (epoch milliseconds in Arrow) as Date
+ */
+function readValueCounts(data: ParquetData, type: string): TopKValue[] {
+  const values = data.columnData.get('value');
+  const counts = data.columnData.get('count');
+  const result: TopKValue[] = [];
+  for (let i = 0; i < data.rowCount; i++) {
+    const value = values?.get(i);
+    result.push({
+      value: isNumericType(type)
+        ? Number(value)
+        : isTemporalType(type)
+          ? new Date(Number(value))
+          : value,
+      count: Number(counts?.get(i)),
+    });
+  }
+  return result;
+}
+
+/**
+ * Values of a numeric result column as numbers: the Arrow vector's typed array,
+ * with 64-bit integers converted
+ */
+function numberValues(column: {
+  toArray(): ArrayLike<number> | BigInt64Array | BigUint64Array;
+}): ArrayLike<number> {
+  const values = column.toArray();
+  if (values instanceof BigInt64Array || values instanceof BigUint64Array) {
+    return Float64Array.from(values, Number);
+  }
+  return values;
+}
+
+function isTemporalType(type: string): boolean {
+  return /^(DATE|TIMESTAMP)/.test(type);
+}
+
 export interface VisibleBounds {
   minX: number;
   maxX: number;
@@ -20,173 +155,1607 @@ export interface VisibleBounds {
   maxY: number;
 }
 
+/** Zoom and pan state as used by GpuLayer */
+export interface ViewState {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
 export interface ProcessedData {
   instanceData: Float32Array;
   rowCount: number;
+  /** Rows matching the filters in the queried area; more than rowCount when truncated */
+  totalCount: number;
   visiblePointLimit: number;
+  /**
+   * Set on the chunks of a progressive query: instanceData holds only the points
+   * from this index on, to append to those already delivered
+   */
+  appendOffset?: number;
+  /** More chunks of a progressive query follow; totalCount is rowCount until the last one */
+  refining?: boolean;
+}
+
+/** GPU instance data, which doubles as hit-test data, and the ids of its points */
+interface PackedPoints {
+  instanceData: Float32Array;
+  count: number;
+  id: (index: number) => SqlValue | null;
 }
 
-interface VisibleData {
-  id: string;
-  x: number;
-  y: number;
-  size: number;
+const NO_POINTS: PackedPoints = { instanceData: new Float32Array(0), count: 0, id: () => null };
+
+function sameBounds(a: VisibleBounds, b: VisibleBounds): boolean {
+  return a.minX === b.minX && a.maxX === b.maxX && a.minY === b.minY && a.maxY === b.maxY;
+}
+
+/** A size/color option to validate, with the type its expression must have */
+interface ExpressionCheck {
+  option: 'sizeSql' | 'colorSql' | 'size' | 'color';
+  sql: string;
+  isValid: (type: string) => boolean;
+  expected: string;
+}
+
+/** A viewport query result as cached */
+interface ViewportResult {
+  points: PackedPoints;
+  totalCount: number;
 }
 
 /**
  * DataLayer handles data acquisition and query management
  * Responsibilities:
- * - Load and manage Parquet data via ParquetReader
+ * - Load and manage data via a DataRepository (ParquetReader by default)
  * - Calculate visible viewport bounds
  * - Query and filter data based on viewport
- * - Throttle queries to optimize performance
+ * - Schedule viewport queries and cancel superseded ones
  * - Convert data to GPU-ready format
  */
 export class DataLayer {
-  private repository: ParquetReader | null = null;
+  private repository: DataRepository | null = null;
+  private readonly injectedRepository?: DataRepository;
   private visiblePointLimit: number = 100000;
+  private xSql: string = 'x';
+  private ySql: string = 'y';
   private sizeSql: string = '3';
-  private colorSql: string = '0x4D4D4DCC'; // ARGB: a=0.3, r=0.3, g=0.3, b=0.8
+  // Size encoding overriding sizeSql, and its scale once resolved against the data
+  private sizeEncoding: SizeEncoding | null = null;
+  private sizeScale: SizeScale | null = null;
+  private colorSql: string = '1296911820'; // ARGB 0x4D4D4DCC: a=0.3, r=0.3, g=0.3, b=0.8
+  // Color encoding overriding colorSql, and its scale once resolved against the data
+  private colorEncoding: ColorEncoding | null = null;
+  private colorScale: ColorScale | null = null;
+  // Categories of the color encoding filtered out from the legend
+  private hiddenCategories: SqlValue[] = [];
+
+  // Lazily loaded schema and column statistics
+  private schema: Promise<ColumnInfo[]> | null = null;
+  private columnStats = new Map<string, Promise<ColumnStats>>();
   private whereConditions: WhereCondition[] = [];
+  private sampling: SamplingStrategy = { type: 'limit' };
   private onError?: (error: ScatterPlotError) => void;
 
-  private currentVisibleData: VisibleData[] = [];
+  private visiblePoints: PackedPoints = NO_POINTS;
+  // Grid index for hit tests, and the points it was built for
+  private pointIndex: PointIndex | null = null;
+  private indexedPoints: PackedPoints | null = null;
+  private readonly packer: PointPacker;
   private idColumn: string = '';
 
+  // Data space -> world space normalization: world = (data - offset) * scale
+  private autoFit: FitOptions | null = {};
+  private dataOffsetX: number = 0;
+  private dataOffsetY: number = 0;
+  private dataScale: number = 1;
+  private initialView: ViewState = { zoom: 1.0, panX: 0.0, panY: 0.0 };
+
+  // Level-of-detail tiles; the cache holds packed tiles in least-recently-used order
+  private tileOptions: TileOptions | null = null;
+  private progressiveOptions: ProgressiveOptions | null = null;
+  private tilePyramid: TilePyramidSpec | null = null;
+  private hasTileLevelColumn: boolean = false;
+  private tileCache = new Map<string, PackedPoints>();
+  private viewportCacheOptions: ViewportCacheOptions | null = {};
+  private viewportCache: ViewportCache<ViewportResult> = new ViewportCache(
+    DEFAULT_VIEWPORT_CACHE_SIZE
+  );
+  private viewportCacheStats = { hits: 0, incremental: 0, misses: 0 };
+
+  private readonly duckdbOptions: DuckDBOptions;
+
   // Spatial query optimization
-  private readonly VIEWPORT_MARGIN = 0.5; // 50% extra on each side
+  private viewportMargin: number = DEFAULT_VIEWPORT_MARGIN;
 
-  // Query cancellation and state tracking
+  // Query scheduling, cancellation and state tracking
+  private scheduler: QueryScheduler = createQueryScheduler({ mode: 'throttle' });
   private currentQueryId: number = 0; // Increments with each new query
-  private latestRequestedViewport: {
-    zoom: number;
-    panX: number;
-    panY: number;
-    queryId: number;
-  } | null = null;
-
-  // Query throttling
-  private readonly queryThrottleInterval: number = 300; // ms between queries
-  private lastQueryTime: number = 0;
-  private throttleTimer: number | null = null;
+  private viewportController: AbortController | null = null; // Aborts the running viewport query
 
   constructor(options: DataLayerOptions) {
     this.visiblePointLimit = options.visiblePointLimit ?? this.visiblePointLimit;
+    this.xSql = options.xSql ?? this.xSql;
+    this.ySql = options.ySql ?? this.ySql;
     this.sizeSql = options.sizeSql ?? this.sizeSql;
+    this.sizeEncoding = options.size ?? null;
     this.colorSql = options.colorSql ?? this.colorSql;
+    this.colorEncoding = options.color ?? null;
     this.whereConditions = options.whereConditions ?? [];
+    this.sampling = options.sampling ?? this.sampling;
     this.idColumn = options.idColumn;
     this.onError = options.onError;
+    this.duckdbOptions = options.duckdb ?? {};
+    this.injectedRepository = options.repository;
+    this.packer = new PointPacker(options.useWorker ?? true);
+    if (options.cache !== undefined) {
+      this.setViewportCacheOptions(options.cache);
+    }
+    if (options.scheduling !== undefined) {
+      this.setScheduling(options.scheduling);
+    }
+    if (options.viewportMargin !== undefined) {
+      this.viewportMargin = Math.max(0, options.viewportMargin);
+    }
+    if (options.progressive !== undefined) {
+      this.progressiveOptions =
+        options.progressive === false
+          ? null
+          : options.progressive === true
+            ? {}
+            : options.progressive;
+    }
+    if (options.autoFit !== undefined) {
+      this.autoFit =
+        options.autoFit === false ? null : options.autoFit === true ? {} : options.autoFit;
+    }
+    if (options.tiles !== undefined) {
+      this.tileOptions =
+        options.tiles === false ? null : options.tiles === true ? {} : options.tiles;
+    }
   }
 
   /**
    * Initialize the data layer and load data
+   *
+   * If loading fails or is aborted, the partially built repository is closed
+   * before the error is rethrown. An injected repository is left open.
    */
-  async initialize(dataUrl: string, aspectRatio: number = 1.0): Promise<ProcessedData> {
-    this.repository = await createParquetReader();
-    await this.repository.loadParquetFromUrl(dataUrl, this.idColumn);
+  async initialize(
+    source: DataSource | undefined,
+    aspectRatio: number = 1.0,
+    loadOptions: RepositoryLoadOptions = {}
+  ): Promise<ProcessedData> {
+    this.schema = null;
+    this.columnStats.clear();
+    this.viewportCache.clear();
+    // Loading recreates parquet_data without the tile level column
+    this.hasTileLevelColumn = false;
+    try {
+      this.repository = this.injectedRepository ?? (await this.createDefaultRepository());
+      loadOptions.signal?.throwIfAborted();
+      await this.repository.load(source, this.idColumn, {
+        ...loadOptions,
+        coordinateSql: [this.xSql, this.ySql],
+      });
+
+      loadOptions.signal?.throwIfAborted();
+      loadOptions.onProgress?.({ phase: 'query' });
+      await this.updateNormalization(aspectRatio);
+      await this.updateTilePyramid();
+      if (this.sizeEncoding) {
+        this.sizeScale = await this.resolveSizeScale(this.sizeEncoding);
+      }
+      if (this.colorEncoding) {
+        this.colorScale = await this.resolveColorScale(this.colorEncoding);
+      }
 
-    // Load initial data
-    return await this.loadInitialData(aspectRatio);
+      // Load initial data
+      const initialData = await this.loadInitialData(aspectRatio);
+      loadOptions.signal?.throwIfAborted();
+      return initialData;
+    } catch (e) {
+      if (this.repository && this.repository !== this.injectedRepository) {
+        await this.repository.close().catch(() => {});
+      }
+      this.repository = null;
+      throw e;
+    }
+  }
+
+  /**
+   * Create the default DuckDB-WASM repository
+   *
+   * Imported on demand so that builds using only an injected repository can
+   * split DuckDB-WASM into a separate chunk.
+   */
+  private async createDefaultRepository(): Promise<DataRepository> {
+    const { createParquetReader } = await import('../repository.js');
+    return createParquetReader(this.duckdbOptions);
+  }
+
+  /**
+   * Recompute the data -> world normalization from the data extent and
+   * derive the initial view that frames it. No-op when autoFit is disabled.
+   */
+  async updateNormalization(aspectRatio: number): Promise<ViewState> {
+    // Packed tiles and cached viewports hold world coordinates
+    this.tileCache.clear();
+    this.viewportCache.clear();
+    this.dataOffsetX = 0;
+    this.dataOffsetY = 0;
+    this.dataScale = 1;
+    this.initialView = { zoom: 1.0, panX: 0.0, panY: 0.0 };
+
+    if (!this.autoFit) {
+      return this.initialView;
+    }
+
+    const extent = await this.queryExtent([], this.autoFit.clipPercentile ?? 0);
+    if (!extent) {
+      return this.initialView;
+    }
+
+    // Center the extent on the origin and scale its longer side to [-1, 1]
+    const halfSize = Math.max(extent.maxX - extent.minX, extent.maxY - extent.minY) / 2;
+    this.dataOffsetX = (extent.minX + extent.maxX) / 2;
+    this.dataOffsetY = (extent.minY + extent.maxY) / 2;
+    this.dataScale = halfSize > 0 ? 1 / halfSize : 1;
+
+    this.initialView = this.frameExtent(extent, aspectRatio, this.autoFit.padding);
+    return this.initialView;
+  }
+
+  /**
+   * (Re)build the tile pyramid for the current coordinates, or leave tile mode
+   * when tiles are disabled
+   *
+   * Failures are reported through onError and fall back to plain viewport queries.
+   */
+  async updateTilePyramid(): Promise<void> {
+    this.tileCache.clear();
+    this.tilePyramid = null;
+    if (!this.tileOptions || !this.repository) {
+      return;
+    }
+
+    try {
+      if (!this.repository.buildTilePyramid) {
+        throw new Error('The data repository does not support tile pyramids');
+      }
+      const extent = await this.queryExtent([], 0);
+      if (!extent) {
+        return;
+      }
+
+      // Square region around the extent, so tiles are square in world space
+      const size = Math.max(extent.maxX - extent.minX, extent.maxY - extent.minY) || 1;
+      const spec: TilePyramidSpec = {
+        xSql: this.xSql,
+        ySql: this.ySql,
+        idColumn: this.idColumn,
+        originX: (extent.minX + extent.maxX) / 2 - size / 2,
+        originY: (extent.minY + extent.maxY) / 2 - size / 2,
+        size,
+        maxLevel: Math.max(0, Math.floor(this.tileOptions.maxLevel ?? 8)),
+        pointsPerTile: Math.max(1, Math.floor(this.tileOptions.pointsPerTile ?? 10000)),
+      };
+      await this.repository.buildTilePyramid(spec);
+      this.hasTileLevelColumn = true;
+      this.tilePyramid = spec;
+    } catch (e) {
+      if (this.onError) {
+        this.onError(
+          createError('QUERY_FAILED', 'Failed to build tile pyramid; using viewport queries', {
+            cause: e instanceof Error ? e : undefined,
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the view that frames the data after load (zoom 1, no pan when autoFit is disabled)
+   */
+  getInitialView(): ViewState {
+    return { ...this.initialView };
+  }
+
+  /**
+   * Compute a view that frames the rows matching the given conditions
+   * @param where Conditions selecting the rows to frame (default: active whereConditions
+   * and hidden legend categories)
+   * @returns The view, or null if no rows match
+   */
+  async computeFitView(
+    aspectRatio: number,
+    where: WhereCondition[] = this.getActiveConditions(),
+    options: FitOptions = this.autoFit ?? {}
+  ): Promise<ViewState | null> {
+    const extent = await this.queryExtent(where, options.clipPercentile ?? 0);
+    if (!extent) {
+      return null;
+    }
+    return this.frameExtent(extent, aspectRatio, options.padding);
+  }
+
+  /**
+   * Query the data-space extent of the coordinates, optionally clipping outliers by percentile
+   */
+  private async queryExtent(
+    where: WhereCondition[],
+    clipPercentile: number
+  ): Promise<VisibleBounds | null> {
+    if (!this.repository) {
+      return null;
+    }
+
+    const x = `CAST((${this.xSql}) AS DOUBLE)`;
+    const y = `CAST((${this.ySql}) AS DOUBLE)`;
+    const clip = Math.max(0, Math.min(0.5, clipPercentile));
+    const aggregates =
+      clip > 0
+        ? `quantile_cont(${x}, ${clip}) AS min_x, quantile_cont(${x}, ${1 - clip}) AS max_x, ` +
+          `quantile_cont(${y}, ${clip}) AS min_y, quantile_cont(${y}, ${1 - clip}) AS max_y`
+        : `MIN(${x}) AS min_x, MAX(${x}) AS max_x, MIN(${y}) AS min_y, MAX(${y}) AS max_y`;
+    const whereClause = where.map((condition) => this.buildWhereClauseString(condition));
+    const sql =
+      `SELECT ${aggregates} FROM parquet_data` +
+      (whereClause.length > 0 ? ` WHERE ${whereClause.join(' AND ')}` : '');
+
+    const data = await this.repository.query({
+      toString: () => sql,
+      request: {
+        kind: 'extent',
+        xSql: this.xSql,
+        ySql: this.ySql,
+        whereConditions: where,
+        clipPercentile: clip,
+      },
+    });
+    const value = (column: string) => data.columnData.get(column)?.get(0);
+    const extent = {
+      minX: value('min_x'),
+      maxX: value('max_x'),
+      minY: value('min_y'),
+      maxY: value('max_y'),
+    };
+
+    if ([extent.minX, extent.maxX, extent.minY, extent.maxY].some((v) => v == null)) {
+      return null;
+    }
+    return extent;
+  }
+
+  /**
+   * Compute the zoom and pan that frame a data-space extent
+   */
+  private frameExtent(
+    extent: VisibleBounds,
+    aspectRatio: number,
+    padding: number = 0.05
+  ): ViewState {
+    const min = this.dataToWorld(extent.minX, extent.minY);
+    const max = this.dataToWorld(extent.maxX, extent.maxY);
+    const width = (max.x - min.x) * (1 + padding);
+    const height = (max.y - min.y) * (1 + padding);
+
+    // Visible world size at a given zoom is (2 * aspectRatio / zoom) x (2 / zoom)
+    const zoomX = width > 0 ? (2 * aspectRatio) / width : Infinity;
+    const zoomY = height > 0 ? 2 / height : Infinity;
+    let zoom = Math.min(zoomX, zoomY);
+    if (!Number.isFinite(zoom)) {
+      zoom = 1.0;
+    }
+    // Same limits as GpuLayer.setZoom, so that pan is computed for the zoom actually applied
+    zoom = Math.max(0.01, Math.min(100, zoom));
+
+    const centerX = (min.x + max.x) / 2;
+    const centerY = (min.y + max.y) / 2;
+    return { zoom, panX: (-centerX * zoom) / aspectRatio, panY: -centerY * zoom };
+  }
+
+  /**
+   * Convert data-space coordinates to normalized world coordinates
+   */
+  dataToWorld(x: number, y: number): { x: number; y: number } {
+    return {
+      x: (x - this.dataOffsetX) * this.dataScale,
+      y: (y - this.dataOffsetY) * this.dataScale,
+    };
   }
 
   /**
    * Load GeoJSON label data into DuckDB table
    */
-  async loadLabelData(geojson: any): Promise<void> {
+  async loadLabelData(geojson: LabelFeatureCollection): Promise<void> {
     if (!this.repository) {
       throw new Error('DataLayer not initialized. Call initialize() first.');
     }
+    if (!this.repository.loadGeoJson) {
+      throw new Error('The data repository does not support loading labels.');
+    }
     await this.repository.loadGeoJson(geojson);
   }
 
   /**
-   * Build WHERE clause string from a single condition
+   * Build WHERE clause string from a single condition, recursing into and/or/not
    */
   private buildWhereClauseString(condition: WhereCondition): string {
-    if (condition.type === 'numeric') {
-      return `${condition.column} ${condition.operator} ${condition.value}`;
-    } else if (condition.type === 'raw') {
-      return condition.sql;
-    } else {
-      // String filter - escape single quotes
-      const escapedValue = condition.value.replace(/'/g, "''");
-
-      switch (condition.operator) {
-        case 'equals':
-          return `${condition.column} = '${escapedValue}'`;
-        case 'contains':
-          return `${condition.column} LIKE '%${escapedValue}%'`;
-        case 'startsWith':
-          return `${condition.column} LIKE '${escapedValue}%'`;
-        case 'endsWith':
-          return `${condition.column} LIKE '%${escapedValue}'`;
+    switch (condition.type) {
+      case 'numeric':
+        return `${quoteIdentifier(condition.column)} ${condition.operator} ${sqlLiteral(condition.value)}`;
+      case 'raw':
+        return condition.sql;
+      case 'string': {
+        const column = quoteIdentifier(condition.column);
+        const like = condition.caseInsensitive ? 'ILIKE' : 'LIKE';
+
+        switch (condition.operator) {
+          case 'equals':
+            return condition.caseInsensitive
+              ? `lower(${column}) = lower(${sqlLiteral(condition.value)})`
+              : `${column} = ${sqlLiteral(condition.value)}`;
+          case 'contains':
+            return `${column} ${like} ${likePattern(condition.value, true, true)}`;
+          case 'startsWith':
+            return `${column} ${like} ${likePattern(condition.value, false, true)}`;
+          case 'endsWith':
+            return `${column} ${like} ${likePattern(condition.value, true, false)}`;
+        }
+        break;
       }
+      case 'date':
+        return `${quoteIdentifier(condition.column)} ${condition.operator} ${timestampLiteral(condition.value)}`;
+      case 'boolean':
+        return `${quoteIdentifier(condition.column)} IS ${condition.value === false ? 'FALSE' : 'TRUE'}`;
+      case 'in':
+        return condition.values.length > 0
+          ? `${quoteIdentifier(condition.column)} IN (${condition.values.map(sqlLiteral).join(', ')})`
+          : 'FALSE';
+      case 'between':
+        return `${quoteIdentifier(condition.column)} BETWEEN ${sqlLiteral(condition.min)} AND ${sqlLiteral(condition.max)}`;
+      case 'null':
+        return `${quoteIdentifier(condition.column)} IS ${condition.isNull === false ? 'NOT NULL' : 'NULL'}`;
+      case 'and':
+        return condition.conditions.length > 0
+          ? `(${condition.conditions.map((c) => this.buildWhereClauseString(c)).join(' AND ')})`
+          : 'TRUE';
+      case 'or':
+        return condition.conditions.length > 0
+          ? `(${condition.conditions.map((c) => this.buildWhereClauseString(c)).join(' OR ')})`
+          : 'FALSE';
+      case 'not':
+        return `NOT (${this.buildWhereClauseString(condition.condition)})`;
     }
   }
 
-  async runQuery(bounds: VisibleBounds): Promise<ParquetData | undefined> {
+  /**
+   * Query the points inside the bounds, up to visiblePointLimit
+   * @param range Rows of the sampling order to return instead, for progressive
+   *   queries; the order is then made total with the id column, and plain 'limit'
+   *   sampling orders by id
+   */
+  async runQuery(
+    bounds: VisibleBounds,
+    signal?: AbortSignal,
+    range?: { offset: number; limit: number }
+  ): Promise<ParquetData | undefined> {
+    const activeConditions = this.getActiveConditions();
+    const limit = range?.limit ?? this.visiblePointLimit;
+    const offset = range?.offset ?? 0;
     return this.repository?.query({
       toString: () => {
         const whereConditions: string[] = [
-          `x BETWEEN ${bounds.minX} AND ${bounds.maxX}`,
-          `y BETWEEN ${bounds.minY} AND ${bounds.maxY}`,
+          `(${this.xSql}) BETWEEN ${bounds.minX} AND ${bounds.maxX}`,
+          `(${this.ySql}) BETWEEN ${bounds.minY} AND ${bounds.maxY}`,
         ];
 
         // Apply custom WHERE conditions (all combined with AND)
-        for (const condition of this.whereConditions) {
+        for (const condition of activeConditions) {
           whereConditions.push(this.buildWhereClauseString(condition));
         }
 
         const whereClause = whereConditions.join(' AND ');
+        let orderBy = this.buildSamplingOrder(bounds);
+        if (range) {
+          // Steps of one viewport are separate queries, which only continue each
+          // other when rows come in the same order every time: break ties by id
+          const id = quoteIdentifier(this.idColumn);
+          orderBy = orderBy ? `${orderBy}, ${id}` : id;
+        }
 
-        return `SELECT x, y, CAST((${this.sizeSql}) AS DOUBLE) AS __size__, CAST((${this.colorSql}) AS INTEGER) AS __color__, ${this.idColumn} FROM parquet_data WHERE ${whereClause} LIMIT ${this.visiblePointLimit}`;
+        return `SELECT ${this.getPointSelect()}, ${quoteIdentifier(this.idColumn)} FROM parquet_data WHERE ${whereClause}${orderBy ? ` ORDER BY ${orderBy}` : ''} LIMIT ${limit}${offset > 0 ? ` OFFSET ${offset}` : ''}`;
       },
+      request: {
+        kind: 'viewport',
+        projection: this.getProjection(),
+        bounds,
+        whereConditions: activeConditions,
+        limit,
+        offset,
+        sampling: this.sampling,
+      },
+      signal,
+    });
+  }
+
+  /**
+   * Build the ORDER BY expression that decides which rows survive the LIMIT
+   * @returns The expression, or null for plain LIMIT truncation
+   */
+  private buildSamplingOrder(bounds: VisibleBounds): string | null {
+    const hash = `hash(${quoteIdentifier(this.idColumn)})`;
+
+    switch (this.sampling.type) {
+      case 'limit':
+        return null;
+      case 'hash':
+        return hash;
+      case 'priority': {
+        const direction = this.sampling.ascending ? 'ASC' : 'DESC';
+        return `(${this.sampling.prioritySql}) ${direction} NULLS LAST, ${hash}`;
+      }
+      case 'grid': {
+        // Rank rows within their grid cell by hash, then take rank 1 of every cell, rank 2, ...
+        const gridSize = Math.max(1, Math.floor(this.sampling.gridSize ?? 32));
+        // Positive even for bounds of zero width or height (e.g. a single point)
+        const width = bounds.maxX - bounds.minX || 1;
+        const height = bounds.maxY - bounds.minY || 1;
+        const cellX = `floor(((${this.xSql}) - ${bounds.minX}) * ${gridSize} / ${width})`;
+        const cellY = `floor(((${this.ySql}) - ${bounds.minY}) * ${gridSize} / ${height})`;
+        return `row_number() OVER (PARTITION BY ${cellX}, ${cellY} ORDER BY ${hash}), ${hash}`;
+      }
+    }
+  }
+
+  /**
+   * Current point projection, for repositories that answer structured requests
+   */
+  private getProjection(): PointProjection {
+    return {
+      xSql: this.xSql,
+      ySql: this.ySql,
+      sizeSql: this.getSizeSql(),
+      sizeScale: this.sizeScale ?? undefined,
+      colorSql: this.getColorSql(),
+      colorScale: this.colorScale ?? undefined,
+      idColumn: this.idColumn,
+    };
+  }
+
+  /**
+   * SELECT list items projecting the configured position, size and color as
+   * __x__, __y__, __size__ and __color__
+   */
+  private getPointSelect(): string {
+    return `${this.getPositionSelect()}, CAST((${this.getSizeSql()}) AS DOUBLE) AS __size__, CAST((${this.getColorSql()}) AS INTEGER) AS __color__`;
+  }
+
+  /**
+   * Color expression: the compiled color encoding, or colorSql
+   */
+  private getColorSql(): string {
+    return this.colorScale ? colorScaleSql(this.colorScale) : this.colorSql;
+  }
+
+  /**
+   * Replace the color encoding (null to go back to colorSql)
+   *
+   * The scale is resolved before anything changes, so on failure the previous
+   * color stays in place.
+   * @throws CodedError with code INVALID_EXPRESSION
+   */
+  async setColorEncoding(encoding: ColorEncoding | null): Promise<void> {
+    const scale = encoding && this.repository ? await this.resolveColorScale(encoding) : null;
+    this.colorEncoding = encoding;
+    this.colorScale = scale;
+    this.hiddenCategories = [];
+    this.tileCache.clear();
+  }
+
+  /**
+   * Get the active color encoding
+   */
+  getColorEncoding(): ColorEncoding | null {
+    return this.colorEncoding;
+  }
+
+  /**
+   * Resolve a color encoding against the data: the column min/max for a
+   * quantitative encoding without a domain, the most frequent values for a
+   * categorical one
+   */
+  private async resolveColorScale(encoding: ColorEncoding): Promise<ColorScale> {
+    const column = quoteIdentifier(encoding.field);
+    try {
+      if (encoding.type === 'quantitative') {
+        if (encoding.domain) {
+          return quantitativeColorScale(encoding, encoding.domain);
+        }
+        return quantitativeColorScale(encoding, await this.queryColumnRange(encoding.field));
+      }
+
+      // Top categories, or the counts of the given ones
+      const domain = encoding.domain;
+      const limit = domain ? domain.length : categoricalPalette(encoding).length;
+      const filter = domain
+        ? `${column} IN (${domain.map(sqlLiteral).join(', ')})`
+        : `${column} IS NOT NULL`;
+      const data = await this.repository!.query({
+        toString: () =>
+          `SELECT ${column} AS value, COUNT(*) AS count FROM parquet_data WHERE ${filter} ` +
+          `GROUP BY ${column} ORDER BY count DESC, value LIMIT ${limit}`,
+        request: { kind: 'categories', column: encoding.field, limit, values: domain },
+      });
+      const values = data.columnData.get('value');
+      const counts = data.columnData.get('count');
+      const found: SqlValue[] = [];
+      const countByValue = new Map<string, number>();
+      for (let i = 0; i < data.rowCount; i++) {
+        found.push(values?.get(i));
+        countByValue.set(String(values?.get(i)), Number(counts?.get(i)));
+      }
+      const categories = domain ?? found;
+      return categoricalColorScale(
+        encoding,
+        categories,
+        categories.map((value) => countByValue.get(String(value)) ?? 0)
+      );
+    } catch (e) {
+      throw new CodedError(
+        'INVALID_EXPRESSION',
+        `Invalid color encoding on "${encoding.field}": ${e instanceof Error ? e.message : String(e)}`,
+        { option: 'color', field: encoding.field }
+      );
+    }
+  }
+
+  /**
+   * whereConditions plus the filter excluding hidden legend categories
+   */
+  private getActiveConditions(): WhereCondition[] {
+    if (this.colorScale?.type !== 'categorical' || this.hiddenCategories.length === 0) {
+      return this.whereConditions;
+    }
+    const column = this.colorScale.field;
+    // BIGINT categories stay bigints, which Number() would round beyond 2^53
+    const values = this.hiddenCategories as (string | number | bigint | boolean)[];
+    // NULL rows are not in any category, so they stay visible
+    return [
+      ...this.whereConditions,
+      {
+        type: 'or',
+        conditions: [
+          { type: 'null', column },
+          { type: 'not', condition: { type: 'in', column, values } },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * Show or hide the points of a category of the categorical color encoding
+   * @returns Whether the category is hidden now
+   */
+  toggleCategory(value: SqlValue): boolean {
+    if (this.colorScale?.type !== 'categorical') {
+      return false;
+    }
+    const key = String(value);
+    const hidden = this.hiddenCategories.some((v) => String(v) === key);
+    this.hiddenCategories = hidden
+      ? this.hiddenCategories.filter((v) => String(v) !== key)
+      : [...this.hiddenCategories, value];
+    this.tileCache.clear();
+    return !hidden;
+  }
+
+  /**
+   * Describe the active size and color encodings for a legend
+   */
+  getLegend(): Legend {
+    return {
+      color: this.colorScale ? this.getColorLegend(this.colorScale) : null,
+      size: this.sizeScale ? this.getSizeLegend(this.sizeScale) : null,
+    };
+  }
+
+  private getColorLegend(scale: ColorScale): CategoricalLegend | GradientLegend {
+    if (scale.type === 'categorical') {
+      const hidden = new Set(this.hiddenCategories.map(String));
+      return {
+        type: 'categorical',
+        field: scale.field,
+        categories: scale.categories.map((value, i) => ({
+          value: value as LegendCategory['value'],
+          color: argbToCss(scale.colors[i]),
+          count: scale.counts?.[i] ?? null,
+          hidden: hidden.has(String(value)),
+        })),
+        otherColor: argbToCss(scale.otherColor),
+      };
+    }
+
+    const [min, max] = scale.domain;
+    const last = scale.colors.length - 1;
+    const stopCount = 11;
+    return {
+      type: 'gradient',
+      field: scale.field,
+      domain: scale.domain,
+      stops: Array.from({ length: stopCount }, (_, i) => {
+        const offset = i / (stopCount - 1);
+        return { offset, color: argbToCss(scale.colors[Math.round(offset * last)]) };
+      }),
+      ticks: niceTicks(min, max).map((value) => ({
+        value,
+        offset: max > min ? (value - min) / (max - min) : 0,
+      })),
+    };
+  }
+
+  private getSizeLegend(scale: SizeScale): SizeLegend {
+    const size = sizeScaleFunction(scale);
+    const [min, max] = scale.domain;
+    return {
+      type: 'size',
+      field: scale.field,
+      entries: niceTicks(min, max, 3).map((value) => ({ value, size: size(value) })),
+    };
+  }
+
+  /**
+   * Size expression: the compiled size encoding, or sizeSql
+   */
+  private getSizeSql(): string {
+    return this.sizeScale ? sizeScaleSql(this.sizeScale) : this.sizeSql;
+  }
+
+  /**
+   * Replace the size encoding (null to go back to sizeSql)
+   *
+   * The scale is resolved before anything changes, so on failure the previous
+   * size stays in place.
+   * @throws CodedError with code INVALID_EXPRESSION
+   */
+  async setSizeEncoding(encoding: SizeEncoding | null): Promise<void> {
+    const scale = encoding && this.repository ? await this.resolveSizeScale(encoding) : null;
+    this.sizeEncoding = encoding;
+    this.sizeScale = scale;
+    this.tileCache.clear();
+  }
+
+  /**
+   * Get the active size encoding
+   */
+  getSizeEncoding(): SizeEncoding | null {
+    return this.sizeEncoding;
+  }
+
+  /**
+   * Resolve a size encoding against the data: the column min/max when no domain is given
+   */
+  private async resolveSizeScale(encoding: SizeEncoding): Promise<SizeScale> {
+    try {
+      return buildSizeScale(
+        encoding,
+        encoding.domain ?? (await this.queryColumnRange(encoding.field))
+      );
+    } catch (e) {
+      throw new CodedError(
+        'INVALID_EXPRESSION',
+        `Invalid size encoding on "${encoding.field}": ${e instanceof Error ? e.message : String(e)}`,
+        { option: 'size', field: encoding.field }
+      );
+    }
+  }
+
+  /**
+   * Min and max of a numeric column over all rows ([0, 1] when it has no values)
+   */
+  private async queryColumnRange(field: string): Promise<[number, number]> {
+    const column = quoteIdentifier(field);
+    const data = await this.repository!.query({
+      toString: () =>
+        `SELECT MIN(CAST(${column} AS DOUBLE)) AS min, MAX(CAST(${column} AS DOUBLE)) AS max FROM parquet_data`,
+      request: { kind: 'range', column: field },
     });
+    const min = data.columnData.get('min')?.get(0);
+    const max = data.columnData.get('max')?.get(0);
+    return [min ?? 0, max ?? 1];
+  }
+
+  /**
+   * SELECT list items projecting the configured coordinates as __x__ and __y__
+   */
+  private getPositionSelect(): string {
+    return `CAST((${this.xSql}) AS DOUBLE) AS __x__, CAST((${this.ySql}) AS DOUBLE) AS __y__`;
+  }
+
+  /**
+   * Dry-run new size/color expressions against the table and check their types,
+   * so that a broken expression is rejected before it replaces a working one.
+   * Color must be an integer and size a number; encoding fields must exist, and
+   * be numeric except for categorical colors.
+   * @returns One INVALID_EXPRESSION error per rejected option; empty when all are valid
+   */
+  async validateExpressions(expressions: {
+    sizeSql?: string;
+    colorSql?: string;
+    size?: SizeEncoding;
+    color?: ColorEncoding;
+  }): Promise<CodedError[]> {
+    const checks: ExpressionCheck[] = [];
+    if (expressions.sizeSql !== undefined) {
+      checks.push({
+        option: 'sizeSql',
+        sql: expressions.sizeSql,
+        isValid: isNumericType,
+        expected: 'a number',
+      });
+    }
+    if (expressions.colorSql !== undefined) {
+      checks.push({
+        option: 'colorSql',
+        sql: expressions.colorSql,
+        isValid: isIntegerType,
+        expected: 'an integer',
+      });
+    }
+    if (expressions.size !== undefined) {
+      checks.push({
+        option: 'size',
+        sql: quoteIdentifier(expressions.size.field),
+        isValid: isNumericType,
+        expected: 'a number',
+      });
+    }
+    if (expressions.color !== undefined) {
+      const quantitative = expressions.color.type === 'quantitative';
+      checks.push({
+        option: 'color',
+        sql: quoteIdentifier(expressions.color.field),
+        isValid: quantitative ? isNumericType : () => true,
+        expected: 'a number',
+      });
+    }
+    if (!this.repository || checks.length === 0) {
+      return [];
+    }
+    return this.checkExpressions(this.repository, checks);
+  }
+
+  /**
+   * Type the expressions with one query, checking them one by one only when it fails
+   */
+  private async checkExpressions(
+    repository: DataRepository,
+    checks: ExpressionCheck[]
+  ): Promise<CodedError[]> {
+    const select = checks
+      .map(({ option, sql }) => `(${sql}) AS ${quoteIdentifier(option)}`)
+      .join(', ');
+    let types: Map<string, string>;
+    try {
+      const result = await repository.query({
+        toString: () => `DESCRIBE SELECT ${select} FROM parquet_data LIMIT 0`,
+        request: {
+          kind: 'types',
+          expressions: Object.fromEntries(checks.map(({ option, sql }) => [option, sql])),
+        },
+      });
+      const names = result.columnData.get('column_name');
+      const columnTypes = result.columnData.get('column_type');
+      types = new Map();
+      for (let i = 0; i < result.rowCount; i++) {
+        types.set(String(names?.get(i)), String(columnTypes?.get(i)));
+      }
+    } catch (e) {
+      // DuckDB does not say which expression failed to bind
+      if (checks.length > 1) {
+        const errors = await Promise.all(
+          checks.map((check) => this.checkExpressions(repository, [check]))
+        );
+        return errors.flat();
+      }
+      const [{ option, sql }] = checks;
+      return [
+        new CodedError(
+          'INVALID_EXPRESSION',
+          `Invalid ${option} expression: ${e instanceof Error ? e.message : String(e)}`,
+          { option, expression: sql }
+        ),
+      ];
+    }
+
+    return checks
+      .filter(({ option, isValid }) => !isValid(types.get(option) ?? 'unknown'))
+      .map(({ option, sql, expected }) => {
+        const type = types.get(option) ?? 'unknown';
+        return new CodedError(
+          'INVALID_EXPRESSION',
+          `${option} must evaluate to ${expected}, but ${sql} is ${type}`,
+          { option, expression: sql, type }
+        );
+      });
   }
 
   /**
    * Execute a custom SQL query against the data
    * Supports both string queries and objects with toString method
+   * @param params Values bound to the `?` placeholders of a prepared statement
    */
-  async executeQuery(query: string | { toString: () => string }): Promise<ParquetData | undefined> {
+  async executeQuery(
+    query: string | { toString: () => string },
+    params?: SqlValue[]
+  ): Promise<ParquetData | undefined> {
     if (!this.repository) {
       return undefined;
     }
-    const queryObj = typeof query === 'string' ? { toString: () => query } : query;
-    return this.repository.query(queryObj);
+    const sql = query.toString();
+    return this.repository.query({ toString: () => sql, params });
+  }
+
+  /**
+   * Columns of the dataset with their DuckDB types
+   */
+  async getSchema(): Promise<ColumnInfo[]> {
+    if (!this.repository) {
+      throw new Error('No data loaded. Call initialize() first.');
+    }
+    if (!this.schema) {
+      const schema = this.querySchema(this.repository);
+      this.schema = schema;
+      // Failures are not cached, so a later call can retry
+      schema.catch(() => {
+        if (this.schema === schema) this.schema = null;
+      });
+    }
+    return this.schema;
+  }
+
+  private async querySchema(repository: DataRepository): Promise<ColumnInfo[]> {
+    const data = await repository.query({
+      toString: () => 'DESCRIBE parquet_data',
+      request: { kind: 'describe' },
+    });
+    const names = data.columnData.get('column_name');
+    const types = data.columnData.get('column_type');
+    const columns: ColumnInfo[] = [];
+    for (let i = 0; i < data.rowCount; i++) {
+      const name = String(names?.get(i));
+      if (name === TILE_LEVEL_COLUMN) continue;
+      columns.push({ name, type: String(types?.get(i)) });
+    }
+    return columns;
+  }
+
+  /**
+   * Statistics of a column, computed on first request and cached
+   */
+  async getColumnStats(column: string): Promise<ColumnStats> {
+    let stats = this.columnStats.get(column);
+    if (!stats) {
+      stats = this.queryColumnStats(column);
+      this.columnStats.set(column, stats);
+      stats.catch(() => {
+        if (this.columnStats.get(column) === stats) this.columnStats.delete(column);
+      });
+    }
+    return stats;
+  }
+
+  private async queryColumnStats(column: string): Promise<ColumnStats> {
+    const type = await this.getColumnType(column);
+    const numeric = isNumericType(type);
+    const temporal = isTemporalType(type);
+    const scalar = numeric || temporal || type === 'VARCHAR' || type === 'BOOLEAN';
+
+    const quoted = quoteIdentifier(column);
+    const value = numeric ? `CAST(${quoted} AS DOUBLE)` : quoted;
+    const range = scalar
+      ? `MIN(${value}) AS min, MAX(${value}) AS max`
+      : 'NULL AS min, NULL AS max';
+    const data = await this.repository!.query({
+      toString: () =>
+        `SELECT ${range}, COUNT(*) - COUNT(${quoted}) AS null_count, ` +
+        `COUNT(DISTINCT ${quoted}) AS distinct_count FROM parquet_data`,
+      request: { kind: 'column-stats', column },
+    });
+    const get = (name: string) => data.columnData.get(name)?.get(0);
+    // Arrow returns dates and timestamps as epoch milliseconds
+    const bound = (v: unknown): ColumnStats['min'] =>
+      v == null ? null : temporal ? new Date(Number(v)) : (v as ColumnStats['min']);
+    const distinctCount = Number(get('distinct_count'));
+
+    let topValues: ColumnStats['topValues'] = null;
+    if (scalar && distinctCount <= TOP_VALUES_MAX_DISTINCT) {
+      const limit = TOP_VALUES_COUNT;
+      const top = await this.repository!.query({
+        toString: () =>
+          `SELECT ${value} AS value, COUNT(*) AS count FROM parquet_data WHERE ${quoted} IS NOT NULL ` +
+          `GROUP BY ${value} ORDER BY count DESC, value LIMIT ${limit}`,
+        request: { kind: 'categories', column, limit },
+      });
+      topValues = readValueCounts(top, type);
+    }
+
+    return {
+      min: bound(get('min')),
+      max: bound(get('max')),
+      nullCount: Number(get('null_count')),
+      distinctCount,
+      topValues,
+    };
+  }
+
+  /**
+   * DuckDB type of a column (upper case)
+   */
+  private async getColumnType(column: string): Promise<string> {
+    const info = (await this.getSchema()).find((c) => c.name === column);
+    if (!info) {
+      throw new Error(`Column "${column}" does not exist`);
+    }
+    return info.type.toUpperCase();
+  }
+
+  /**
+   * Histogram, most frequent values or summary of a column over the rows in scope
+   * @param viewBounds Bounds of the current view, used by the 'viewport' scope
+   */
+  async aggregate<K extends AggregateKind>(
+    options: AggregateOptions & { kind: K },
+    viewBounds: VisibleBounds
+  ): Promise<AggregateResultMap[K]> {
+    if (!this.repository) {
+      throw new Error('No data loaded. Call initialize() first.');
+    }
+    const { column, kind } = options;
+    const type = await this.getColumnType(column);
+    if (kind !== 'topk' && !isNumericType(type)) {
+      throw new Error(`Column "${column}" has type ${type} but ${kind} needs a numeric column`);
+    }
+
+    const scope = options.scope ?? 'viewport';
+    const selection: RowSelection = {
+      whereConditions: scope === 'all' ? [] : this.getActiveConditions(),
+      bounds: scope === 'viewport' ? viewBounds : undefined,
+      xSql: this.xSql,
+      ySql: this.ySql,
+    };
+    let result: AggregateResultMap[AggregateKind];
+    switch (kind) {
+      case 'histogram':
+        result = await this.queryHistogram(column, selection, options);
+        break;
+      case 'topk':
+        result = await this.queryTopValues(column, type, selection, options.limit ?? 10);
+        break;
+      case 'stats':
+        result = await this.querySummary(column, selection);
+        break;
+      default:
+        throw new Error(`Unknown aggregate kind "${kind}"`);
+    }
+    return result as AggregateResultMap[K];
+  }
+
+  /**
+   * WHERE clause selecting the rows of an aggregate
+   */
+  private buildSelectionWhere(selection: RowSelection): string {
+    const conditions = selection.whereConditions.map((c) => this.buildWhereClauseString(c));
+    const { bounds } = selection;
+    if (bounds) {
+      conditions.unshift(
+        `(${selection.xSql}) BETWEEN ${bounds.minX} AND ${bounds.maxX}`,
+        `(${selection.ySql}) BETWEEN ${bounds.minY} AND ${bounds.maxY}`
+      );
+    }
+    return conditions.length > 0 ? conditions.join(' AND ') : 'TRUE';
+  }
+
+  private async querySummary(column: string, selection: RowSelection): Promise<AggregateStats> {
+    const value = `CAST(${quoteIdentifier(column)} AS DOUBLE)`;
+    const data = await this.repository!.query({
+      toString: () =>
+        `SELECT COUNT(*) AS count, COUNT(*) - COUNT(${value}) AS null_count, ` +
+        `MIN(${value}) AS min, MAX(${value}) AS max, AVG(${value}) AS mean, ` +
+        `stddev_samp(${value}) AS stddev FROM parquet_data WHERE ${this.buildSelectionWhere(selection)}`,
+      request: { kind: 'summary', column, ...selection },
+    });
+    const get = (name: string) => data.columnData.get(name)?.get(0);
+    const number = (v: unknown) => (v == null ? null : Number(v));
+    return {
+      count: Number(get('count')),
+      nullCount: Number(get('null_count')),
+      min: number(get('min')),
+      max: number(get('max')),
+      mean: number(get('mean')),
+      stddev: number(get('stddev')),
+    };
+  }
+
+  private async queryHistogram(
+    column: string,
+    selection: RowSelection,
+    options: AggregateOptions
+  ): Promise<HistogramBin[]> {
+    let domain = options.domain;
+    if (!domain) {
+      const { min, max } = await this.querySummary(column, selection);
+      if (min === null || max === null) {
+        return [];
+      }
+      domain = [min, max];
+    }
+    const [min, max] = domain;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+      throw new Error('A histogram domain needs two finite numbers in increasing order');
+    }
+    // A single value gets a single bin
+    const bins = max > min ? Math.max(1, Math.floor(options.bins ?? 20)) : 1;
+    const width = (max - min) / bins;
+
+    const value = `CAST(${quoteIdentifier(column)} AS DOUBLE)`;
+    // The top of the domain falls in the last bin
+    const bin = `LEAST(CAST(floor((${value} - ${min}) / ${width || 1}) AS INTEGER), ${bins - 1})`;
+    const data = await this.repository!.query({
+      toString: () =>
+        `SELECT ${bin} AS bin, COUNT(*) AS count FROM parquet_data ` +
+        `WHERE ${this.buildSelectionWhere(selection)} AND ${value} BETWEEN ${min} AND ${max} GROUP BY bin`,
+      request: { kind: 'histogram', column, domain: [min, max], bins, ...selection },
+    });
+
+    const counts = new Array<number>(bins).fill(0);
+    const binColumn = data.columnData.get('bin');
+    const countColumn = data.columnData.get('count');
+    for (let i = 0; i < data.rowCount; i++) {
+      counts[Number(binColumn?.get(i))] += Number(countColumn?.get(i));
+    }
+    return counts.map((count, i) => ({
+      x0: min + i * width,
+      x1: i === bins - 1 ? max : min + (i + 1) * width,
+      count,
+    }));
+  }
+
+  private async queryTopValues(
+    column: string,
+    type: string,
+    selection: RowSelection,
+    limit: number
+  ): Promise<TopKValue[]> {
+    const quoted = quoteIdentifier(column);
+    const value = isNumericType(type) ? `CAST(${quoted} AS DOUBLE)` : quoted;
+    const data = await this.repository!.query({
+      toString: () =>
+        `SELECT ${value} AS value, COUNT(*) AS count FROM parquet_data ` +
+        `WHERE ${this.buildSelectionWhere(selection)} AND ${quoted} IS NOT NULL ` +
+        `GROUP BY ${value} ORDER BY count DESC, value LIMIT ${limit}`,
+      request: { kind: 'top-values', column, limit, ...selection },
+    });
+    return readValueCounts(data, type);
   }
 
   /**
    * Load initial data for the default viewport
    */
   private async loadInitialData(aspectRatio: number = 1.0): Promise<ProcessedData> {
-    const bounds = this.calculateVisibleBounds(1.0, 0.0, 0.0, aspectRatio);
-    const data = await this.runQuery(bounds);
+    const view = this.initialView;
+    const bounds = this.calculateVisibleBounds(view.zoom, view.panX, view.panY, aspectRatio);
+    return this.fetchVisibleData(bounds);
+  }
 
-    if (!data) {
+  /**
+   * Query the points to render for the bounds, from tiles when a pyramid is built
+   * @param onRefine Receives the steps of a progressive query before the last one,
+   *   which is returned; without it, the whole result is returned at once
+   */
+  private async fetchVisibleData(
+    bounds: VisibleBounds,
+    signal?: AbortSignal,
+    onRefine?: (data: ProcessedData) => void
+  ): Promise<ProcessedData> {
+    if (this.tilePyramid) {
+      return this.fetchTiles(this.tilePyramid, bounds, signal);
+    }
+    if (!this.repository) {
       return {
         instanceData: new Float32Array(0),
         rowCount: 0,
+        totalCount: 0,
         visiblePointLimit: this.visiblePointLimit,
       };
     }
 
-    return this.processDataToGpuFormat(data);
+    const queryKey = this.getViewportQueryKey();
+    const cached = this.viewportCacheOptions ? this.viewportCache.get(queryKey, bounds) : undefined;
+    let result: ViewportResult;
+    let lastStep: ProcessedData | undefined;
+    if (cached) {
+      this.viewportCacheStats.hits++;
+      result = cached.value;
+      if (!sameBounds(cached.bounds, bounds)) {
+        // A complete result for larger bounds holds every point of these ones
+        const points = this.cropPoints(cached.value.points, bounds);
+        result = { points, totalCount: points.count };
+        this.viewportCache.set({ queryKey, bounds, value: result, complete: true });
+      }
+    } else {
+      const base = this.viewportCacheOptions?.incremental
+        ? this.viewportCache.findOverlapping(queryKey, bounds)
+        : undefined;
+      const merged = base && (await this.fetchStrips(base, bounds, signal));
+      if (merged) {
+        this.viewportCacheStats.incremental++;
+        result = { points: merged, totalCount: merged.count };
+      } else if (this.progressiveOptions && onRefine) {
+        this.viewportCacheStats.misses++;
+        ({ result, lastStep } = await this.queryViewportProgressively(bounds, signal, onRefine));
+      } else {
+        this.viewportCacheStats.misses++;
+        result = await this.queryViewport(bounds, signal);
+      }
+      if (this.viewportCacheOptions) {
+        this.viewportCache.set({
+          queryKey,
+          bounds,
+          value: result,
+          complete: result.totalCount === result.points.count,
+        });
+      }
+    }
+
+    this.visiblePoints = result.points;
+    return (
+      lastStep ?? {
+        instanceData: result.points.instanceData,
+        rowCount: result.points.count,
+        totalCount: result.totalCount,
+        visiblePointLimit: this.visiblePointLimit,
+      }
+    );
+  }
+
+  /**
+   * Query and pack the points of the whole bounds
+   */
+  private async queryViewport(
+    bounds: VisibleBounds,
+    signal?: AbortSignal
+  ): Promise<ViewportResult> {
+    const data = await this.runQuery(bounds, signal);
+    const points = data ? await this.packPoints(data) : NO_POINTS;
+    // Only a query that hit the limit needs counting
+    const totalCount =
+      points.count >= this.visiblePointLimit
+        ? await this.countMatching(bounds, signal)
+        : points.count;
+    return { points, totalCount };
+  }
+
+  /**
+   * Query the points of the whole bounds in steps: a coarse pass with the first
+   * points of the sampling order, then the following points in chunks. Each step
+   * but the last is handed to `onRefine` as soon as it is packed; the first one
+   * holds all its points, later ones only the points to append.
+   */
+  private async queryViewportProgressively(
+    bounds: VisibleBounds,
+    signal: AbortSignal | undefined,
+    onRefine: (data: ProcessedData) => void
+  ): Promise<{ result: ViewportResult; lastStep: ProcessedData }> {
+    const limit = this.visiblePointLimit;
+    const options = this.progressiveOptions ?? {};
+    const coarseLimit = Math.min(
+      limit,
+      Math.max(1, Math.ceil(limit * (options.coarseFraction ?? 0.05)))
+    );
+    const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? limit / 4));
+
+    // Filled in place, so that each step only packs and uploads its own points
+    const instanceData = new Float32Array(limit * INSTANCE_STRIDE);
+    const ids: (SqlValue | null)[] = [];
+    const id = (index: number) => ids[index] ?? null;
+    let count = 0;
+    let requested = coarseLimit;
+    for (;;) {
+      const data = await this.runQuery(bounds, signal, { offset: count, limit: requested });
+      const packed = data ? await this.packPoints(data) : NO_POINTS;
+      signal?.throwIfAborted();
+
+      const offset = count;
+      instanceData.set(
+        packed.instanceData.subarray(0, packed.count * INSTANCE_STRIDE),
+        offset * INSTANCE_STRIDE
+      );
+      for (let i = 0; i < packed.count; i++) {
+        ids.push(packed.id(i));
+      }
+      count += packed.count;
+
+      const step: ProcessedData = {
+        instanceData: packed.instanceData,
+        rowCount: count,
+        totalCount: count,
+        visiblePointLimit: limit,
+        appendOffset: offset > 0 ? offset : undefined,
+      };
+      if (packed.count < requested || count >= limit) {
+        // Only a query that hit the limit needs counting
+        step.totalCount = count >= limit ? await this.countMatching(bounds, signal) : count;
+        const points = { instanceData: instanceData.slice(0, count * INSTANCE_STRIDE), count, id };
+        return { result: { points, totalCount: step.totalCount }, lastStep: step };
+      }
+
+      this.visiblePoints = {
+        instanceData: instanceData.subarray(0, count * INSTANCE_STRIDE),
+        count,
+        id,
+      };
+      onRefine({ ...step, refining: true });
+      requested = Math.min(chunkSize, limit - count);
+    }
+  }
+
+  /**
+   * Points of a result that are inside the bounds, compared in world space as
+   * packed (float32), so that points on the edges are kept like in a query
+   */
+  private cropPoints(points: PackedPoints, bounds: VisibleBounds): PackedPoints {
+    const min = this.dataToWorld(bounds.minX, bounds.minY);
+    const max = this.dataToWorld(bounds.maxX, bounds.maxY);
+    const minX = Math.fround(min.x);
+    const minY = Math.fround(min.y);
+    const maxX = Math.fround(max.x);
+    const maxY = Math.fround(max.y);
+
+    const kept: number[] = [];
+    for (let i = 0; i < points.count; i++) {
+      const x = points.instanceData[i * INSTANCE_STRIDE];
+      const y = points.instanceData[i * INSTANCE_STRIDE + 1];
+      if (x >= minX && x <= maxX && y >= minY && y <= maxY) {
+        kept.push(i);
+      }
+    }
+
+    const instanceData = new Float32Array(kept.length * INSTANCE_STRIDE);
+    kept.forEach((row, i) => {
+      instanceData.set(
+        points.instanceData.subarray(row * INSTANCE_STRIDE, (row + 1) * INSTANCE_STRIDE),
+        i * INSTANCE_STRIDE
+      );
+    });
+    const ids = kept.map((row) => points.id(row));
+    return { instanceData, count: kept.length, id: (index) => ids[index] ?? null };
   }
 
   /**
-   * Calculate visible bounds in world coordinates with margin
+   * Update a complete cached result to new bounds by querying only the strips it
+   * does not cover, keeping its points that are still inside the bounds
+   * @returns The merged points, or null when they would exceed the point limit
+   */
+  private async fetchStrips(
+    base: CachedViewport<ViewportResult>,
+    bounds: VisibleBounds,
+    signal?: AbortSignal
+  ): Promise<PackedPoints | null> {
+    const strips: PackedPoints[] = [];
+    let stripCount = 0;
+    for (const strip of uncoveredStrips(bounds, base.bounds)) {
+      const data = await this.runQuery(strip, signal);
+      const packed = data ? await this.packPoints(data) : NO_POINTS;
+      stripCount += packed.count;
+      // A strip that reached the limit may have been truncated
+      if (stripCount >= this.visiblePointLimit) {
+        return null;
+      }
+      strips.push(packed);
+    }
+
+    // Bounds in world space, widened for float32 rounding
+    const world = (value: number, offset: number) => (value - offset) * this.dataScale;
+    const minX = world(bounds.minX, this.dataOffsetX);
+    const maxX = world(bounds.maxX, this.dataOffsetX);
+    const minY = world(bounds.minY, this.dataOffsetY);
+    const maxY = world(bounds.maxY, this.dataOffsetY);
+    const tolerance = 1e-5 * Math.max(maxX - minX, maxY - minY);
+    // Points on the edge of the base bounds may also be in a strip
+    const edgeMinX = world(base.bounds.minX, this.dataOffsetX) + tolerance;
+    const edgeMaxX = world(base.bounds.maxX, this.dataOffsetX) - tolerance;
+    const edgeMinY = world(base.bounds.minY, this.dataOffsetY) + tolerance;
+    const edgeMaxY = world(base.bounds.maxY, this.dataOffsetY) - tolerance;
+
+    const ids: (SqlValue | null)[] = [];
+    const stripIds = new Set<string>();
+    for (const strip of strips) {
+      for (let i = 0; i < strip.count; i++) {
+        const id = strip.id(i);
+        ids.push(id);
+        stripIds.add(String(id));
+      }
+    }
+
+    const previous = base.value.points;
+    const kept: number[] = [];
+    for (let i = 0; i < previous.count; i++) {
+      const x = previous.instanceData[i * INSTANCE_STRIDE];
+      const y = previous.instanceData[i * INSTANCE_STRIDE + 1];
+      if (x < minX - tolerance || x > maxX + tolerance) continue;
+      if (y < minY - tolerance || y > maxY + tolerance) continue;
+      const onEdge = x <= edgeMinX || x >= edgeMaxX || y <= edgeMinY || y >= edgeMaxY;
+      if (onEdge && stripIds.has(String(previous.id(i)))) continue;
+      kept.push(i);
+    }
+    const count = kept.length + stripCount;
+    if (count > this.visiblePointLimit) {
+      return null;
+    }
+
+    const instanceData = new Float32Array(count * INSTANCE_STRIDE);
+    kept.forEach((row, i) => {
+      instanceData.set(
+        previous.instanceData.subarray(row * INSTANCE_STRIDE, (row + 1) * INSTANCE_STRIDE),
+        i * INSTANCE_STRIDE
+      );
+    });
+    let offset = kept.length;
+    for (const strip of strips) {
+      instanceData.set(
+        strip.instanceData.subarray(0, strip.count * INSTANCE_STRIDE),
+        offset * INSTANCE_STRIDE
+      );
+      offset += strip.count;
+    }
+    // Ids in a flat array, so that merges do not chain lookups
+    const allIds = kept.map((row) => previous.id(row)).concat(ids);
+    return { instanceData, count, id: (index) => allIds[index] ?? null };
+  }
+
+  /**
+   * Everything a viewport result depends on besides the bounds
+   */
+  private getViewportQueryKey(): string {
+    return JSON.stringify(
+      [
+        this.getPointSelect(),
+        this.getActiveConditions(),
+        this.sampling,
+        this.visiblePointLimit,
+        this.idColumn,
+        this.dataOffsetX,
+        this.dataOffsetY,
+        this.dataScale,
+      ],
+      (_, value) => (typeof value === 'bigint' ? `${value}n` : value)
+    );
+  }
+
+  private setViewportCacheOptions(cache: boolean | ViewportCacheOptions): void {
+    this.viewportCacheOptions = cache === false ? null : cache === true ? {} : cache;
+    if (this.viewportCacheOptions) {
+      this.viewportCache.setCapacity(
+        Math.max(1, this.viewportCacheOptions.size ?? DEFAULT_VIEWPORT_CACHE_SIZE)
+      );
+    } else {
+      this.viewportCache.clear();
+    }
+  }
+
+  /**
+   * Hit and miss counts of the viewport result cache
+   */
+  getViewportCacheStats(): ViewportCacheStats {
+    return { ...this.viewportCacheStats, entries: this.viewportCache.getSize() };
+  }
+
+  /**
+   * Number of rows inside the bounds that match the filters
+   */
+  private async countMatching(bounds: VisibleBounds, signal?: AbortSignal): Promise<number> {
+    const selection: RowSelection = {
+      whereConditions: this.getActiveConditions(),
+      bounds,
+      xSql: this.xSql,
+      ySql: this.ySql,
+    };
+    const data = await this.repository!.query({
+      toString: () =>
+        `SELECT COUNT(*) AS count FROM parquet_data WHERE ${this.buildSelectionWhere(selection)}`,
+      request: { kind: 'count', ...selection },
+      signal,
+    });
+    return Number(data.columnData.get('count')?.get(0) ?? 0);
+  }
+
+  /**
+   * Load the tiles covering the bounds at the zoom-appropriate level, querying
+   * only the tiles that are not cached
+   */
+  private async fetchTiles(
+    spec: TilePyramidSpec,
+    bounds: VisibleBounds,
+    signal?: AbortSignal
+  ): Promise<ProcessedData> {
+    const level = chooseTileLevel(spec, bounds);
+    const cacheSize = Math.max(1, this.tileOptions?.cacheSize ?? 256);
+    const parts: PackedPoints[] = [];
+    const tiles = tilesInBounds(spec, level, bounds);
+
+    for (const tile of tiles) {
+      const key = tileKey(tile);
+      let packed = this.tileCache.get(key);
+      if (packed) {
+        // Move to the most recently used end
+        this.tileCache.delete(key);
+      } else {
+        const conditions = [tileWhereSql(spec, tile)];
+        for (const condition of this.getActiveConditions()) {
+          conditions.push(this.buildWhereClauseString(condition));
+        }
+        const sql = `SELECT ${this.getPointSelect()}, ${quoteIdentifier(this.idColumn)} FROM parquet_data WHERE ${conditions.join(' AND ')} LIMIT ${spec.pointsPerTile}`;
+        const data = await this.repository!.query({ toString: () => sql, signal });
+        packed = await this.packPoints(data);
+      }
+      this.tileCache.set(key, packed);
+      parts.push(packed);
+    }
+
+    while (this.tileCache.size > cacheSize) {
+      this.tileCache.delete(this.tileCache.keys().next().value!);
+    }
+
+    // Concatenate the tiles, up to the point limit
+    const available = parts.reduce((sum, part) => sum + part.count, 0);
+    const total = Math.min(this.visiblePointLimit, available);
+    const instanceData = new Float32Array(total * INSTANCE_STRIDE);
+    let offset = 0;
+    for (const part of parts) {
+      const count = Math.min(part.count, total - offset);
+      instanceData.set(
+        part.instanceData.subarray(0, count * INSTANCE_STRIDE),
+        offset * INSTANCE_STRIDE
+      );
+      offset += count;
+    }
+    const id = (index: number) => {
+      for (const part of parts) {
+        if (index < part.count) return part.id(index);
+        index -= part.count;
+      }
+      return null;
+    };
+
+    this.visiblePoints = { instanceData, count: total, id };
+
+    // Tiles above the deepest level, full tiles and the point limit all leave rows out
+    const complete =
+      level === spec.maxLevel &&
+      total === available &&
+      parts.every((part) => part.count < spec.pointsPerTile);
+    const extent = tilesExtent(spec, tiles);
+    const totalCount = complete || !extent ? total : await this.countMatching(extent, signal);
+
+    return { instanceData, rowCount: total, totalCount, visiblePointLimit: this.visiblePointLimit };
+  }
+
+  /**
+   * Calculate visible bounds in data coordinates with margin
+   * @param margin Extra fraction of the view on each side (default: the prefetch margin)
    */
   calculateVisibleBounds(
     zoom: number,
     panX: number,
     panY: number,
-    aspectRatio: number
+    aspectRatio: number,
+    margin: number = this.viewportMargin
   ): VisibleBounds {
     // Clip space bounds with margin
-    const clipMin = -1 - this.VIEWPORT_MARGIN;
-    const clipMax = 1 + this.VIEWPORT_MARGIN;
+    const clipMin = -1 - margin;
+    const clipMax = 1 + margin;
 
     // Convert clip space to world coordinates, accounting for aspect ratio correction
     // The view matrix scales X by zoom/aspectRatio and Y by zoom, so we need to invert that:
@@ -197,11 +1766,20 @@ export class DataLayer {
     const minY = (clipMin - panY) / zoom;
     const maxY = (clipMax - panY) / zoom;
 
-    return { minX, maxX, minY, maxY };
+    // Undo the data -> world normalization (scale is always positive)
+    return {
+      minX: minX / this.dataScale + this.dataOffsetX,
+      maxX: maxX / this.dataScale + this.dataOffsetX,
+      minY: minY / this.dataScale + this.dataOffsetY,
+      maxY: maxY / this.dataScale + this.dataOffsetY,
+    };
   }
 
   /**
-   * Schedule a visible points update with throttling
+   * Schedule a visible points update with the configured scheduler
+   *
+   * The viewport query still running, if any, is cancelled: its result would be
+   * discarded anyway.
    */
   scheduleVisiblePointsUpdate(
     zoom: number,
@@ -210,34 +1788,27 @@ export class DataLayer {
     aspectRatio: number,
     callback: (data: ProcessedData) => void
   ): void {
-    // Increment query ID and store latest viewport request
     this.currentQueryId++;
     const queryId = this.currentQueryId;
-    this.latestRequestedViewport = { zoom, panX, panY, queryId };
+    this.viewportController?.abort();
+    this.viewportController = null;
 
-    // Clear any existing scheduled query
-    if (this.throttleTimer !== null) {
-      clearTimeout(this.throttleTimer);
-      this.throttleTimer = null;
-    }
+    this.scheduler.schedule(() => {
+      this.updateVisiblePoints(zoom, panX, panY, aspectRatio, queryId, callback);
+    });
+  }
 
-    const now = performance.now();
-    const timeSinceLastQuery = now - this.lastQueryTime;
+  /**
+   * Tell the scheduler that a pointer interaction (drag or touch) started or ended
+   */
+  setInteracting(interacting: boolean): void {
+    this.scheduler.setInteracting?.(interacting);
+  }
 
-    // If enough time has passed, run query immediately
-    if (timeSinceLastQuery >= this.queryThrottleInterval) {
-      this.updateVisiblePoints(zoom, panX, panY, aspectRatio, queryId, callback);
-    } else {
-      // Otherwise, schedule query to run after throttle period
-      const delay = this.queryThrottleInterval - timeSinceLastQuery;
-      this.throttleTimer = window.setTimeout(() => {
-        this.throttleTimer = null;
-        // Check if this is still the latest request before executing
-        if (this.latestRequestedViewport && this.latestRequestedViewport.queryId === queryId) {
-          this.updateVisiblePoints(zoom, panX, panY, aspectRatio, queryId, callback);
-        }
-      }, delay);
-    }
+  private setScheduling(scheduling: QuerySchedulingOptions | QueryScheduler): void {
+    // A waiting update is dropped; callers schedule a new one after changing options
+    this.scheduler.cancel();
+    this.scheduler = 'schedule' in scheduling ? scheduling : createQueryScheduler(scheduling);
   }
 
   /**
@@ -251,33 +1822,28 @@ export class DataLayer {
     queryId: number,
     callback: (data: ProcessedData) => void
   ): Promise<void> {
-    if (!this.repository) {
+    if (!this.repository || queryId !== this.currentQueryId) {
       return;
     }
 
-    // Update last query time
-    this.lastQueryTime = performance.now();
+    const controller = new AbortController();
+    this.viewportController = controller;
+    // Superseded results, including the steps of a progressive query, are dropped
+    const deliver = (data: ProcessedData) => {
+      if (queryId === this.currentQueryId) {
+        callback(data);
+      }
+    };
 
     try {
       const bounds = this.calculateVisibleBounds(zoom, panX, panY, aspectRatio);
-      const data = await this.runQuery(bounds);
-
-      // Check if this query is still relevant (hasn't been superseded)
+      deliver(await this.fetchVisibleData(bounds, controller.signal, deliver));
+    } catch (e) {
+      // A superseded query was cancelled, or its result is stale; nothing to report
       if (queryId !== this.currentQueryId) {
         return;
       }
 
-      if (!data) {
-        return;
-      }
-
-      const processedData = this.processDataToGpuFormat(data);
-
-      // Final check before applying results
-      if (queryId === this.currentQueryId) {
-        callback(processedData);
-      }
-    } catch (e) {
       // Emit error event instead of silently ignoring
       if (this.onError) {
         this.onError(
@@ -287,66 +1853,37 @@ export class DataLayer {
           })
         );
       }
+    } finally {
+      if (this.viewportController === controller) {
+        this.viewportController = null;
+      }
     }
   }
 
   /**
-   * Convert columnar data to GPU-ready instance data format
-   * Format: [x, y, r, g, b, a, size] per point
+   * Pack query results into GPU instance data and hit-test data
    */
-  private processDataToGpuFormat(data: ParquetData): ProcessedData {
-    const xColumn = data.columnData.get('x');
-    const yColumn = data.columnData.get('y');
+  private async packPoints(data: ParquetData): Promise<PackedPoints> {
+    const xColumn = data.columnData.get('__x__');
+    const yColumn = data.columnData.get('__y__');
     const sizeColumn = data.columnData.get('__size__');
     const colorColumn = data.columnData.get('__color__');
     const idColumn = data.columnData.get(this.idColumn);
 
     if (!xColumn || !yColumn || !sizeColumn || !colorColumn || !idColumn) {
-      return {
-        instanceData: new Float32Array(0),
-        rowCount: 0,
-        visiblePointLimit: this.visiblePointLimit,
-      };
+      return NO_POINTS;
     }
 
-    const cachedData = new Array<VisibleData>(data.rowCount);
-    const instanceData = new Float32Array(data.rowCount * 7);
-
-    for (let i = 0; i < data.rowCount; i++) {
-      const x = xColumn.get(i);
-      const y = yColumn.get(i);
-      const size = sizeColumn.get(i);
-      const argbRaw = colorColumn.get(i);
-
-      // Handle BigInt from DuckDB
-      const argb = typeof argbRaw === 'bigint' ? Number(argbRaw) : argbRaw;
-
-      // Unpack ARGB integer to RGBA floats (0-1 range)
-      // ARGB format: 0xAARRGGBB
-      const a = ((argb >>> 24) & 0xff) / 255;
-      const r = ((argb >>> 16) & 0xff) / 255;
-      const g = ((argb >>> 8) & 0xff) / 255;
-      const b = (argb & 0xff) / 255;
-
-      instanceData[i * 7 + 0] = x;
-      instanceData[i * 7 + 1] = y;
-      instanceData[i * 7 + 2] = r;
-      instanceData[i * 7 + 3] = g;
-      instanceData[i * 7 + 4] = b;
-      instanceData[i * 7 + 5] = a;
-      instanceData[i * 7 + 6] = size;
-
-      cachedData[i] = {
-        id: idColumn.get(i),
-        x: x,
-        y: y,
-        size: size,
-      };
-    }
-
-    this.currentVisibleData = cachedData;
-
-    return { instanceData, rowCount: data.rowCount, visiblePointLimit: this.visiblePointLimit };
+    const instanceData = await this.packer.pack(
+      {
+        x: numberValues(xColumn),
+        y: numberValues(yColumn),
+        size: numberValues(sizeColumn),
+        color: numberValues(colorColumn),
+      },
+      { offsetX: this.dataOffsetX, offsetY: this.dataOffsetY, scale: this.dataScale }
+    );
+    return { instanceData, count: data.rowCount, id: (index) => idColumn.get(index) };
   }
 
   /**
@@ -356,18 +1893,67 @@ export class DataLayer {
     if (options.visiblePointLimit !== undefined) {
       this.visiblePointLimit = options.visiblePointLimit;
     }
+    if (options.xSql !== undefined) {
+      this.xSql = options.xSql;
+    }
+    if (options.ySql !== undefined) {
+      this.ySql = options.ySql;
+    }
     if (options.sizeSql !== undefined) {
       this.sizeSql = options.sizeSql;
+      this.sizeEncoding = null;
+      this.sizeScale = null;
     }
     if (options.colorSql !== undefined) {
       this.colorSql = options.colorSql;
+      this.colorEncoding = null;
+      this.colorScale = null;
+      this.hiddenCategories = [];
     }
     if (options.whereConditions !== undefined) {
       this.whereConditions = options.whereConditions;
     }
+    if (options.sampling !== undefined) {
+      this.sampling = options.sampling;
+    }
+    if (options.autoFit !== undefined) {
+      this.autoFit =
+        options.autoFit === false ? null : options.autoFit === true ? {} : options.autoFit;
+    }
     if (options.idColumn !== undefined) {
       this.idColumn = options.idColumn;
     }
+    if (options.tiles !== undefined) {
+      this.tileOptions =
+        options.tiles === false ? null : options.tiles === true ? {} : options.tiles;
+    }
+    if (options.cache !== undefined) {
+      this.setViewportCacheOptions(options.cache);
+    }
+    if (options.scheduling !== undefined) {
+      this.setScheduling(options.scheduling);
+    }
+    if (options.viewportMargin !== undefined) {
+      this.viewportMargin = Math.max(0, options.viewportMargin);
+    }
+    if (options.progressive !== undefined) {
+      this.progressiveOptions =
+        options.progressive === false
+          ? null
+          : options.progressive === true
+            ? {}
+            : options.progressive;
+    }
+
+    // Cached tiles were packed with the previous expressions and filters
+    if (
+      options.sizeSql !== undefined ||
+      options.colorSql !== undefined ||
+      options.whereConditions !== undefined ||
+      options.idColumn !== undefined
+    ) {
+      this.tileCache.clear();
+    }
   }
 
   /**
@@ -388,6 +1974,18 @@ export class DataLayer {
     };
   }
 
+  /**
+   * Get point position in data space from row data (expects __x__/__y__ columns from SQL)
+   */
+  getPointPosition(row: any[], columns: string[]): { x: number; y: number } | null {
+    const xIdx = columns.indexOf('__x__');
+    const yIdx = columns.indexOf('__y__');
+    if (xIdx === -1 || yIdx === -1) {
+      return null;
+    }
+    return { x: row[xIdx], y: row[yIdx] };
+  }
+
   /**
    * Get point size from row data (expects __size__ column from SQL)
    */
@@ -423,7 +2021,8 @@ export class DataLayer {
     aspectRatio: number,
     thresholdPixels: number = 10
   ): Promise<{ row: any[]; columns: string[] } | null> {
-    if (this.currentVisibleData.length == 0 || this.repository == null) {
+    const { instanceData, count } = this.visiblePoints;
+    if (count == 0 || this.repository == null) {
       return null;
     }
 
@@ -441,41 +2040,47 @@ export class DataLayer {
     const thresholdClip = (thresholdPixels / canvasWidth) * 2;
     const thresholdWorld = (thresholdClip * aspectRatio) / zoom;
 
-    let nearestId: string | null = null;
-    let nearestDistance = Infinity;
-
-    // Search through all visible points
-    // TODO: 現在は全探索しているが、quad treeとか使ってもいいかもしれない
-    for (let i = 0; i < this.currentVisibleData.length; i++) {
-      const pointX = this.currentVisibleData[i].x;
-      const pointY = this.currentVisibleData[i].y;
+    // Points are drawn with a radius of size * zoom^0.3 pixels, so large points
+    // are hit anywhere on their disc
+    const sizeScale = (thresholdWorld / thresholdPixels) * Math.pow(zoom, 0.3);
 
-      // Calculate distance in world space
-      const dx = pointX - worldX;
-      const dy = pointY - worldY;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-
-      if (distance < nearestDistance && distance <= thresholdWorld) {
-        nearestDistance = distance;
-        nearestId = this.currentVisibleData[i].id;
-      }
+    // Index the points on the first hit test after they change
+    if (this.indexedPoints !== this.visiblePoints) {
+      this.pointIndex = new PointIndex(instanceData, count);
+      this.indexedPoints = this.visiblePoints;
     }
+    const nearestIndex = this.pointIndex!.findNearest(worldX, worldY, thresholdWorld, sizeScale);
 
+    const nearestId = nearestIndex === -1 ? null : this.visiblePoints.id(nearestIndex);
     if (nearestId == null) {
       return null;
     }
 
+    // Also look the point up by a small box around its position: unlike the id,
+    // x and y let scans of remote Parquet files skip the other row groups
+    const box = (world: number, offset: number) => {
+      const value = world / this.dataScale + offset;
+      // Wide enough for the float32 rounding of world coordinates
+      const tolerance = (1e-6 * (Math.abs(world) + 1)) / this.dataScale;
+      return `BETWEEN ${value - tolerance} AND ${value + tolerance}`;
+    };
+    const xRange = box(instanceData[nearestIndex * INSTANCE_STRIDE], this.dataOffsetX);
+    const yRange = box(instanceData[nearestIndex * INSTANCE_STRIDE + 1], this.dataOffsetY);
+
     const data = await this.repository.query({
       toString: () =>
-        `SELECT *, CAST((${this.sizeSql}) AS DOUBLE) AS __size__, CAST((${this.colorSql}) AS INTEGER) AS __color__ FROM parquet_data WHERE ${this.idColumn} = ${nearestId}`,
+        `SELECT ${this.hasTileLevelColumn ? `* EXCLUDE (${TILE_LEVEL_COLUMN})` : '*'}, ${this.getPointSelect()} FROM parquet_data WHERE ${quoteIdentifier(this.idColumn)} = ? AND (${this.xSql}) ${xRange} AND (${this.ySql}) ${yRange}`,
+      params: [nearestId],
+      request: { kind: 'point', projection: this.getProjection(), id: nearestId },
     });
 
-    if (!data) {
+    // The row may have changed since the points were packed
+    if (!data || data.rowCount === 0) {
       return null;
     }
 
     // Extract first row
-    const row: any[] = new Array(data.columns.length);
+    const row: unknown[] = new Array(data.columns.length);
     for (let j = 0; j < data.columns.length; j++) {
       const column = data.columnData.get(data.columns[j]);
       row[j] = column?.get(0);
@@ -488,11 +2093,15 @@ export class DataLayer {
    * Cleanup resources
    */
   async destroy(): Promise<void> {
-    // Clear any pending throttled queries
-    if (this.throttleTimer !== null) {
-      clearTimeout(this.throttleTimer);
-      this.throttleTimer = null;
-    }
+    // Drop the waiting query and cancel the running one
+    this.currentQueryId++;
+    this.scheduler.cancel();
+    this.viewportController?.abort();
+    this.viewportController = null;
+
+    this.tileCache.clear();
+    this.viewportCache.clear();
+    this.packer.destroy();
 
     // Close the repository connection
     if (this.repository) {
@@ -2,6 +2,7 @@ import { WebGPUContext } from '../webgpu-context.js';
 import { scatterVertexShader } from '../shaders.js';
 import type { ColorRGBA } from '../types.js';
 import type { ProcessedData } from './data-layer.js';
+import { INSTANCE_STRIDE } from '../point-packer.js';
 
 export interface GpuLayerOptions {
   canvas: HTMLCanvasElement;
@@ -250,6 +251,58 @@ export class GpuLayer {
     }
   }
 
+  /**
+   * Append the points of a progressive query chunk after the first
+   * `data.appendOffset` points, writing only the new points to the GPU buffer
+   */
+  appendInstanceData(data: ProcessedData): void {
+    if (
+      !this.context.device ||
+      !this.instanceBuffer ||
+      !this.baseInstanceData ||
+      !this.currentInstanceData
+    ) {
+      return;
+    }
+    if (data.rowCount > this.instanceBufferCapacity) return;
+
+    const appendOffset = data.appendOffset ?? 0;
+    const start = appendOffset * INSTANCE_STRIDE;
+    const end = data.rowCount * INSTANCE_STRIDE;
+    if (end > this.baseInstanceData.length) {
+      // Grow geometrically up to the buffer capacity, so that each chunk does not
+      // copy all the points before it
+      const length = Math.min(
+        this.instanceBufferCapacity * INSTANCE_STRIDE,
+        Math.max(end, this.baseInstanceData.length * 2)
+      );
+      const baseInstanceData = new Float32Array(length);
+      baseInstanceData.set(this.baseInstanceData.subarray(0, start));
+      this.baseInstanceData = baseInstanceData;
+      const currentInstanceData = new Float32Array(length);
+      currentInstanceData.set(this.currentInstanceData.subarray(0, start));
+      this.currentInstanceData = currentInstanceData;
+    }
+    const chunk = data.instanceData.subarray(0, end - start);
+    this.baseInstanceData.set(chunk, start);
+    this.currentInstanceData.set(chunk, start);
+    this.rowCount = data.rowCount;
+
+    // Points before the chunk keep their hover scaling
+    if (this.hoveredPointIndex !== null && this.hoveredPointIndex >= appendOffset) {
+      this.applyHoverScaling();
+    }
+
+    // Offsets of writeBuffer are in bytes for the buffer and in elements for the data
+    this.context.device.queue.writeBuffer(
+      this.instanceBuffer,
+      start * 4,
+      this.currentInstanceData as BufferSource,
+      start,
+      end - start
+    );
+  }
+
   /**
    * Create bind group for uniforms
    */
@@ -360,7 +413,9 @@ export class GpuLayer {
       this.context.device.queue.writeBuffer(
         this.instanceBuffer,
         0,
-        this.currentInstanceData as BufferSource
+        this.currentInstanceData as BufferSource,
+        0,
+        this.rowCount * INSTANCE_STRIDE
       );
     }
   }
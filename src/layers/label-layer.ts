@@ -3,6 +3,9 @@ import type {
   LabelFilterLambda,
   PointHoverCallback,
   HoverOutlineOptions,
+  Legend,
+  LegendCategory,
+  LegendOptions,
 } from '../types.js';
 import type { DataLayer } from './data-layer.js';
 
@@ -17,6 +20,17 @@ export interface LabelLayerOptions {
   dataLayer?: DataLayer;
   outlinedPointAddition?: number;
   minimumHoverSize?: number;
+  legendOptions?: LegendOptions;
+  onLegendCategoryClick?: (category: LegendCategory) => void;
+}
+
+/** One row of the legend box */
+interface LegendRow {
+  width: number;
+  height: number;
+  /** Category toggled by clicking the row */
+  category?: LegendCategory;
+  draw: (context: CanvasRenderingContext2D, x: number, y: number) => void;
 }
 
 /**
@@ -26,6 +40,7 @@ export interface LabelLayerOptions {
  * - Render text labels with collision detection
  * - Transform label coordinates using view matrix
  * - Filter labels by density and viewport visibility
+ * - Render the encoding legend
  */
 export class LabelLayer {
   private canvas: HTMLCanvasElement; // WebGPU canvas (for positioning)
@@ -61,6 +76,17 @@ export class LabelLayer {
   private hoverOutlineOptions: HoverOutlineOptions;
   private readonly dataLayer: DataLayer | null = null;
 
+  // Legend state; categories are hit-tested against their last drawn rows
+  private legendOptions: LegendOptions;
+  private onLegendCategoryClick?: (category: LegendCategory) => void;
+  private renderedLegendRows: Array<{
+    category: LegendCategory;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }> = [];
+
   constructor(options: LabelLayerOptions) {
     this.canvas = options.canvas;
     this.minLabelDistance = options.minLabelDistance ?? this.minLabelDistance;
@@ -70,6 +96,8 @@ export class LabelLayer {
     this.onLabelClick = options.onLabelClick;
     this.onPointHover = options.onPointHover;
     this.dataLayer = options.dataLayer ?? null;
+    this.legendOptions = options.legendOptions ?? {};
+    this.onLegendCategoryClick = options.onLegendCategoryClick;
     this.hoverOutlineOptions = {
       enabled: options.hoverOutlineOptions?.enabled ?? true,
       color: options.hoverOutlineOptions?.color ?? 'white',
@@ -141,7 +169,19 @@ export class LabelLayer {
     this.labelContext.clearRect(0, 0, this.labelCanvas.width, this.labelCanvas.height);
     this.renderedLabelBounds = [];
 
-    if (this.labels.length === 0) {
+    this.renderLabels();
+
+    // Render point outline if a point is hovered
+    this.renderPointOutline();
+
+    this.renderLegend();
+  }
+
+  /**
+   * Render the labels that pass the density and viewport checks
+   */
+  private renderLabels(): void {
+    if (!this.labelContext || !this.labelCanvas || this.labels.length === 0) {
       return;
     }
 
@@ -163,9 +203,10 @@ export class LabelLayer {
         passedFilter = this.filterLambda(label.properties);
       }
 
-      // Transform label position using view matrix
-      const worldX = label.x;
-      const worldY = label.y;
+      // Labels are in data space; map them into the same normalized world space as the points
+      const world = this.dataLayer ? this.dataLayer.dataToWorld(label.x, label.y) : label;
+      const worldX = world.x;
+      const worldY = world.y;
 
       // Calculate aspect ratio for coordinate transformation
       const aspectRatio = this.labelCanvas.width / this.labelCanvas.height;
@@ -270,9 +311,6 @@ export class LabelLayer {
         }
       }
     }
-
-    // Render point outline if a point is hovered
-    this.renderPointOutline();
   }
 
   /**
@@ -287,16 +325,19 @@ export class LabelLayer {
       return;
     }
 
-    // Extract x and y from row data
-    const xIndex = this.hoveredPoint.columns.indexOf('x');
-    const yIndex = this.hoveredPoint.columns.indexOf('y');
+    // Extract the configured x/y coordinates from row data using data layer helper
+    const position = this.dataLayer.getPointPosition(
+      this.hoveredPoint.row,
+      this.hoveredPoint.columns
+    );
 
-    if (xIndex === -1 || yIndex === -1) {
+    if (!position) {
       return;
     }
 
-    const worldX = this.hoveredPoint.row[xIndex];
-    const worldY = this.hoveredPoint.row[yIndex];
+    const world = this.dataLayer.dataToWorld(position.x, position.y);
+    const worldX = world.x;
+    const worldY = world.y;
 
     const aspectRatio = this.labelCanvas.width / this.labelCanvas.height;
 
@@ -308,7 +349,8 @@ export class LabelLayer {
     const screenX = (clipX + 1) * 0.5 * this.labelCanvas.width;
     const screenY = (1 - clipY) * 0.5 * this.labelCanvas.height; // Flip Y axis
 
-    // Calculate the point radius in screen space using data layer helper
+    // Calculate the point radius in screen space using data layer helper; __size__
+    // comes from the same expression as the rendered size (sizeSql or size encoding)
     // Points are scaled by zoom^0.3 in the shader
     const baseSize = this.dataLayer.getPointSize(this.hoveredPoint.row, this.hoveredPoint.columns);
     const zoomScaledSize = Math.max(
@@ -334,6 +376,187 @@ export class LabelLayer {
     this.labelContext.stroke();
   }
 
+  /**
+   * Render the legend box for the active encodings in the configured corner
+   */
+  private renderLegend(): void {
+    this.renderedLegendRows = [];
+    if (!this.labelContext || !this.labelCanvas || !this.dataLayer || !this.legendOptions.enabled) {
+      return;
+    }
+    const legend = this.dataLayer.getLegend();
+    if (!legend.color && !legend.size) {
+      return;
+    }
+
+    const context = this.labelContext;
+    const fontSize = this.legendOptions.fontSize ?? 12;
+    const rows = this.buildLegendRows(legend, fontSize);
+
+    // Size the box to its rows, then place it in the corner
+    const padding = 8;
+    const margin = 10;
+    const width = Math.max(...rows.map((row) => row.width)) + padding * 2;
+    const height = rows.reduce((sum, row) => sum + row.height, 0) + padding * 2;
+    const position = this.legendOptions.position ?? 'top-right';
+    const boxX = position.endsWith('left') ? margin : this.labelCanvas.width - width - margin;
+    const boxY = position.startsWith('top') ? margin : this.labelCanvas.height - height - margin;
+
+    context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    context.beginPath();
+    context.roundRect(boxX, boxY, width, height, 4);
+    context.fill();
+
+    context.textAlign = 'left';
+    context.textBaseline = 'middle';
+    let y = boxY + padding;
+    for (const row of rows) {
+      row.draw(context, boxX + padding, y);
+      if (row.category) {
+        this.renderedLegendRows.push({
+          category: row.category,
+          x: boxX,
+          y,
+          width,
+          height: row.height,
+        });
+      }
+      y += row.height;
+    }
+  }
+
+  /**
+   * Lay out the legend as rows that know their size and how to draw themselves
+   */
+  private buildLegendRows(legend: Legend, fontSize: number): LegendRow[] {
+    const context = this.labelContext!;
+    const lineHeight = Math.round(fontSize * 1.6);
+    const swatchRadius = fontSize * 0.4;
+    const font = `${fontSize}px sans-serif`;
+    const textWidth = (text: string, bold = false) => {
+      context.font = bold ? `bold ${font}` : font;
+      return context.measureText(text).width;
+    };
+    const text = (value: number | string) =>
+      typeof value === 'number' ? value.toLocaleString() : value;
+
+    const rows: LegendRow[] = [];
+    const title = (field: string) =>
+      rows.push({
+        width: textWidth(field, true),
+        height: lineHeight,
+        draw: (ctx, x, y) => {
+          ctx.font = `bold ${font}`;
+          ctx.fillStyle = 'white';
+          ctx.fillText(field, x, y + lineHeight / 2);
+        },
+      });
+    const swatchRow = (
+      color: string,
+      caption: string,
+      hidden: boolean,
+      category?: LegendCategory
+    ) =>
+      rows.push({
+        width: swatchRadius * 2 + 6 + textWidth(caption),
+        height: lineHeight,
+        category,
+        draw: (ctx, x, y) => {
+          const cy = y + lineHeight / 2;
+          ctx.beginPath();
+          ctx.arc(x + swatchRadius, cy, swatchRadius, 0, Math.PI * 2);
+          // Hidden categories keep an outline so they can be clicked back on
+          if (hidden) {
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 1.5;
+            ctx.stroke();
+          } else {
+            ctx.fillStyle = color;
+            ctx.fill();
+          }
+          ctx.font = font;
+          ctx.fillStyle = hidden ? 'rgba(255, 255, 255, 0.4)' : 'white';
+          ctx.fillText(caption, x + swatchRadius * 2 + 6, cy);
+        },
+      });
+
+    const color = legend.color;
+    if (color?.type === 'categorical') {
+      title(color.field);
+      for (const category of color.categories) {
+        const caption =
+          category.count === null
+            ? String(category.value)
+            : `${String(category.value)} (${text(category.count)})`;
+        swatchRow(category.color, caption, category.hidden, category);
+      }
+      swatchRow(color.otherColor, 'Other', false);
+    } else if (color?.type === 'gradient') {
+      title(color.field);
+      const barWidth = 140;
+      const barHeight = Math.round(fontSize * 0.9);
+      const labels = color.ticks.map((tick) => ({ ...tick, label: text(tick.value) }));
+      const overhang = Math.max(0, ...labels.map(({ label }) => textWidth(label) / 2));
+      rows.push({
+        width: barWidth + overhang * 2,
+        height: barHeight + lineHeight,
+        draw: (ctx, x, y) => {
+          const left = x + overhang;
+          const gradient = ctx.createLinearGradient(left, 0, left + barWidth, 0);
+          for (const stop of color.stops) {
+            gradient.addColorStop(stop.offset, stop.color);
+          }
+          ctx.fillStyle = gradient;
+          ctx.fillRect(left, y, barWidth, barHeight);
+          ctx.font = font;
+          ctx.fillStyle = 'white';
+          ctx.textAlign = 'center';
+          for (const { offset, label } of labels) {
+            ctx.fillText(label, left + offset * barWidth, y + barHeight + lineHeight / 2);
+          }
+          ctx.textAlign = 'left';
+        },
+      });
+    }
+
+    const size = legend.size;
+    if (size) {
+      title(size.field);
+      const maxRadius = Math.max(swatchRadius, ...size.entries.map((entry) => entry.size));
+      for (const entry of size.entries) {
+        const label = text(entry.value);
+        rows.push({
+          width: maxRadius * 2 + 6 + textWidth(label),
+          height: Math.max(lineHeight, entry.size * 2 + 4),
+          draw: (ctx, x, y) => {
+            const cy = y + Math.max(lineHeight, entry.size * 2 + 4) / 2;
+            ctx.beginPath();
+            ctx.arc(x + maxRadius, cy, Math.max(0, entry.size), 0, Math.PI * 2);
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+            ctx.fill();
+            ctx.font = font;
+            ctx.fillStyle = 'white';
+            ctx.fillText(label, x + maxRadius * 2 + 6, cy);
+          },
+        });
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Find the legend category at the given canvas position
+   */
+  private getLegendCategoryAtPosition(x: number, y: number): LegendCategory | null {
+    for (const row of this.renderedLegendRows) {
+      if (x >= row.x && x <= row.x + row.width && y >= row.y && y <= row.y + row.height) {
+        return row.category;
+      }
+    }
+    return null;
+  }
+
   /**
    * Load labels from GeoJSON data
    */
@@ -374,10 +597,11 @@ export class LabelLayer {
       const y = e.clientY - rect.top;
 
       const labelAtPosition = this.getLabelAtPosition(x, y);
+      const legendCategory = this.getLegendCategoryAtPosition(x, y);
 
-      // Check for point hover only if no label is hovered
+      // Check for point hover only if no label or legend entry is hovered
       let pointHit: { row: any[]; columns: string[] } | null = null;
-      if (!labelAtPosition && this.dataLayer) {
+      if (!labelAtPosition && !legendCategory && this.dataLayer) {
         const aspectRatio = this.labelCanvas.width / this.labelCanvas.height;
         pointHit = await this.dataLayer.findNearestPoint(
           x,
@@ -394,7 +618,7 @@ export class LabelLayer {
 
       // Dynamically enable/disable pointer events based on label hit only
       // Point hits should keep pointerEvents as 'none' to allow pan/zoom
-      if (labelAtPosition) {
+      if (labelAtPosition || legendCategory) {
         this.labelCanvas.style.pointerEvents = 'auto';
         this.labelCanvas.style.cursor = 'pointer';
       } else {
@@ -429,6 +653,13 @@ export class LabelLayer {
       const x = e.clientX - rect.left;
       const y = e.clientY - rect.top;
 
+      const legendCategory = this.getLegendCategoryAtPosition(x, y);
+      if (legendCategory && this.onLegendCategoryClick) {
+        this.onLegendCategoryClick(legendCategory);
+        e.stopPropagation();
+        return;
+      }
+
       const labelAtPosition = this.getLabelAtPosition(x, y);
 
       if (labelAtPosition && this.onLabelClick) {
@@ -531,6 +762,12 @@ export class LabelLayer {
     if (options.onPointHover !== undefined) {
       this.onPointHover = options.onPointHover;
     }
+    if (options.legendOptions !== undefined) {
+      this.legendOptions = { ...this.legendOptions, ...options.legendOptions };
+    }
+    if (options.onLegendCategoryClick !== undefined) {
+      this.onLegendCategoryClick = options.onLegendCategoryClick;
+    }
     if (options.hoverOutlineOptions !== undefined) {
       this.hoverOutlineOptions = {
         enabled: options.hoverOutlineOptions.enabled ?? this.hoverOutlineOptions.enabled,
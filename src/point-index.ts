@@ -0,0 +1,131 @@
+import { INSTANCE_STRIDE } from './point-packer.js';
+
+/** Largest number of grid cells along each axis */
+const MAX_CELLS_PER_AXIS = 1024;
+/** Average number of points per grid cell aimed for */
+const POINTS_PER_CELL = 4;
+
+/**
+ * Uniform grid over the world positions of packed instance data, for hit tests
+ *
+ * Points are bucketed by cell with a counting sort, so the index is two flat
+ * arrays: the start of each cell in `cellPoints`, and the point indices sorted
+ * by cell. Points with non-finite positions are left out.
+ */
+export class PointIndex {
+  private readonly instanceData: Float32Array;
+  private readonly minX: number;
+  private readonly minY: number;
+  private readonly cellWidth: number;
+  private readonly cellHeight: number;
+  private readonly columns: number;
+  private readonly rows: number;
+  private readonly cellStart: Uint32Array;
+  private readonly cellPoints: Uint32Array;
+  private readonly maxSize: number;
+
+  constructor(instanceData: Float32Array, count: number) {
+    this.instanceData = instanceData;
+
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+    let maxSize = 0;
+    for (let i = 0; i < count; i++) {
+      const x = instanceData[i * INSTANCE_STRIDE];
+      const y = instanceData[i * INSTANCE_STRIDE + 1];
+      if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      maxSize = Math.max(maxSize, instanceData[i * INSTANCE_STRIDE + 6]);
+    }
+
+    const cellsPerAxis = Math.min(
+      MAX_CELLS_PER_AXIS,
+      Math.max(1, Math.ceil(Math.sqrt(count / POINTS_PER_CELL)))
+    );
+    this.minX = Number.isFinite(minX) ? minX : 0;
+    this.minY = Number.isFinite(minY) ? minY : 0;
+    this.columns = cellsPerAxis;
+    this.rows = cellsPerAxis;
+    // Positive even for a single point or points on a line
+    this.cellWidth = (maxX - minX) / cellsPerAxis || 1;
+    this.cellHeight = (maxY - minY) / cellsPerAxis || 1;
+    this.maxSize = maxSize;
+
+    // Counting sort of the points by cell
+    const cells = new Int32Array(count);
+    this.cellStart = new Uint32Array(this.columns * this.rows + 1);
+    for (let i = 0; i < count; i++) {
+      const x = instanceData[i * INSTANCE_STRIDE];
+      const y = instanceData[i * INSTANCE_STRIDE + 1];
+      if (!Number.isFinite(x) || !Number.isFinite(y)) {
+        cells[i] = -1;
+        continue;
+      }
+      cells[i] = this.cellOf(this.column(x), this.row(y));
+      this.cellStart[cells[i] + 1]++;
+    }
+    for (let cell = 0; cell < this.columns * this.rows; cell++) {
+      this.cellStart[cell + 1] += this.cellStart[cell];
+    }
+    const next = this.cellStart.slice(0, -1);
+    this.cellPoints = new Uint32Array(this.cellStart[this.columns * this.rows]);
+    for (let i = 0; i < count; i++) {
+      if (cells[i] >= 0) {
+        this.cellPoints[next[cells[i]]++] = i;
+      }
+    }
+  }
+
+  /**
+   * Index of the point nearest to (x, y) among those whose hit disc contains it,
+   * or -1. A point's hit radius is its size times `sizeScale`, but at least
+   * `minRadius` (both in world units).
+   */
+  findNearest(x: number, y: number, minRadius: number, sizeScale: number): number {
+    const searchRadius = Math.max(minRadius, this.maxSize * sizeScale);
+    const minColumn = this.column(x - searchRadius);
+    const maxColumn = this.column(x + searchRadius);
+    const minRow = this.row(y - searchRadius);
+    const maxRow = this.row(y + searchRadius);
+
+    let nearestIndex = -1;
+    let nearestDistance = Infinity;
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        const cell = this.cellOf(column, row);
+        for (let k = this.cellStart[cell]; k < this.cellStart[cell + 1]; k++) {
+          const i = this.cellPoints[k];
+          const dx = this.instanceData[i * INSTANCE_STRIDE] - x;
+          const dy = this.instanceData[i * INSTANCE_STRIDE + 1] - y;
+          const distance = Math.sqrt(dx * dx + dy * dy);
+          const radius = Math.max(
+            minRadius,
+            this.instanceData[i * INSTANCE_STRIDE + 6] * sizeScale
+          );
+          if (distance <= radius && distance < nearestDistance) {
+            nearestDistance = distance;
+            nearestIndex = i;
+          }
+        }
+      }
+    }
+    return nearestIndex;
+  }
+
+  private column(x: number): number {
+    return Math.max(0, Math.min(this.columns - 1, Math.floor((x - this.minX) / this.cellWidth)));
+  }
+
+  private row(y: number): number {
+    return Math.max(0, Math.min(this.rows - 1, Math.floor((y - this.minY) / this.cellHeight)));
+  }
+
+  private cellOf(column: number, row: number): number {
+    return row * this.columns + column;
+  }
+}
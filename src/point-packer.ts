@@ -0,0 +1,156 @@
+/**
+ * Packing of query results into GPU instance data, off the main thread when possible
+ *
+ * Instance data holds 7 floats per point: x, y (world space), r, g, b, a (0-1)
+ * and size. It also serves as the hit-test cache, so nothing per point is kept
+ * on the main thread besides the id column.
+ */
+
+/** Floats per point in the instance data */
+export const INSTANCE_STRIDE = 7;
+
+/** The projected columns of a viewport query, as numbers */
+export interface PointColumns {
+  x: ArrayLike<number>;
+  y: ArrayLike<number>;
+  size: ArrayLike<number>;
+  /** Signed 32-bit ARGB colors */
+  color: ArrayLike<number>;
+}
+
+/** Data -> world normalization: world = (data - offset) * scale */
+export interface PointTransform {
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+}
+
+/**
+ * Pack columns into instance data
+ */
+export function packInstances(columns: PointColumns, transform: PointTransform): Float32Array {
+  const { x, y, size, color } = columns;
+  const { offsetX, offsetY, scale } = transform;
+  const count = x.length;
+  const instanceData = new Float32Array(count * INSTANCE_STRIDE);
+  for (let i = 0; i < count; i++) {
+    const argb = color[i];
+    const o = i * INSTANCE_STRIDE;
+    instanceData[o] = (x[i] - offsetX) * scale;
+    instanceData[o + 1] = (y[i] - offsetY) * scale;
+    // ARGB format: 0xAARRGGBB
+    instanceData[o + 2] = ((argb >>> 16) & 0xff) / 255;
+    instanceData[o + 3] = ((argb >>> 8) & 0xff) / 255;
+    instanceData[o + 4] = (argb & 0xff) / 255;
+    instanceData[o + 5] = ((argb >>> 24) & 0xff) / 255;
+    instanceData[o + 6] = size[i];
+  }
+  return instanceData;
+}
+
+interface PendingPack {
+  columns: PointColumns;
+  transform: PointTransform;
+  resolve: (instanceData: Float32Array) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Packs points in a Web Worker, transferring the instance data back without a
+ * copy. Falls back to packing on the calling thread when workers are disabled,
+ * unavailable (e.g. outside a browser) or fail to start.
+ *
+ * The worker is a module shipped next to this file, resolved from
+ * `import.meta.url` so that bundlers emit it as well.
+ */
+export class PointPacker {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingPack>();
+
+  constructor(useWorker: boolean = true) {
+    if (useWorker && typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('./point-packer.worker.js', import.meta.url), {
+          type: 'module',
+        });
+        this.worker.onmessage = (event) => this.handleMessage(event.data);
+        // e.g. a Content-Security-Policy without the worker's origin, or a bundle
+        // that left the worker file out
+        this.worker.onerror = () => this.fallBackToSync();
+      } catch {
+        this.fallBackToSync();
+      }
+    }
+  }
+
+  /**
+   * Pack columns into instance data
+   */
+  async pack(columns: PointColumns, transform: PointTransform): Promise<Float32Array> {
+    if (!this.worker) {
+      return packInstances(columns, transform);
+    }
+
+    // Compact copies: a view into a larger Arrow buffer would clone the whole buffer
+    const x = new Float64Array(columns.x);
+    const y = new Float64Array(columns.y);
+    const size = new Float64Array(columns.size);
+    const color = new Int32Array(columns.color);
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { columns, transform, resolve, reject });
+      this.worker!.postMessage({ id, columns: { x, y, size, color }, transform }, [
+        x.buffer,
+        y.buffer,
+        size.buffer,
+        color.buffer,
+      ]);
+    });
+  }
+
+  private handleMessage(message: {
+    id: number;
+    instanceData?: Float32Array;
+    error?: string;
+  }): void {
+    const request = this.pending.get(message.id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(message.id);
+    if (message.instanceData) {
+      request.resolve(message.instanceData);
+    } else {
+      request.reject(new Error(`Point packing failed: ${message.error}`));
+    }
+  }
+
+  /**
+   * Stop the worker and pack from now on on this thread, including the requests
+   * the worker did not answer
+   */
+  private fallBackToSync(): void {
+    this.terminate();
+    for (const request of this.pending.values()) {
+      request.resolve(packInstances(request.columns, request.transform));
+    }
+    this.pending.clear();
+  }
+
+  private terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Stop the worker; pending packs are rejected
+   */
+  destroy(): void {
+    this.terminate();
+    for (const request of this.pending.values()) {
+      request.reject(new Error('Point packer was destroyed'));
+    }
+    this.pending.clear();
+  }
+}
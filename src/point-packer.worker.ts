@@ -0,0 +1,15 @@
+/**
+ * Module worker that packs points for PointPacker
+ */
+
+import { packInstances } from './point-packer.js';
+
+self.onmessage = (event: MessageEvent) => {
+  const { id, columns, transform } = event.data;
+  try {
+    const instanceData = packInstances(columns, transform);
+    self.postMessage({ id, instanceData }, { transfer: [instanceData.buffer] });
+  } catch (e) {
+    self.postMessage({ id, error: String(e) });
+  }
+};
@@ -0,0 +1,174 @@
+import type { QuerySchedulingOptions } from './types.js';
+
+/**
+ * Decides when a viewport query runs after the view changes
+ *
+ * Only the latest task matters: a task scheduled while another is still waiting
+ * replaces it. Custom schedulers can be passed as `data.scheduling`.
+ */
+export interface QueryScheduler {
+  /** Run the task according to the policy, replacing the task still waiting */
+  schedule(task: () => void): void;
+  /** Drop the waiting task, if any */
+  cancel(): void;
+  /** Called when a pointer interaction (drag or touch) starts and ends */
+  setInteracting?(interacting: boolean): void;
+}
+
+/**
+ * Leading and trailing throttle: runs at once when the last run is at least
+ * `interval` ms ago, otherwise when the interval has passed
+ */
+class ThrottleScheduler implements QueryScheduler {
+  private readonly interval: number;
+  private lastRunTime: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(interval: number) {
+    this.interval = interval;
+  }
+
+  schedule(task: () => void): void {
+    this.cancel();
+    const delay = this.interval - (performance.now() - this.lastRunTime);
+    if (delay <= 0) {
+      this.run(task);
+    } else {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.run(task);
+      }, delay);
+    }
+  }
+
+  private run(task: () => void): void {
+    this.lastRunTime = performance.now();
+    task();
+  }
+
+  cancel(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Trailing debounce: runs once no task was scheduled for `delay` ms. With
+ * `waitForInteractionEnd`, also holds the task until the pointer interaction ends.
+ */
+class DebounceScheduler implements QueryScheduler {
+  private readonly delay: number;
+  private readonly waitForInteractionEnd: boolean;
+  private interacting: boolean = false;
+  private waiting: (() => void) | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(delay: number, waitForInteractionEnd: boolean) {
+    this.delay = delay;
+    this.waitForInteractionEnd = waitForInteractionEnd;
+  }
+
+  schedule(task: () => void): void {
+    this.cancel();
+    this.waiting = task;
+    if (!this.interacting) {
+      this.startTimer();
+    }
+  }
+
+  setInteracting(interacting: boolean): void {
+    if (!this.waitForInteractionEnd || interacting === this.interacting) {
+      return;
+    }
+    this.interacting = interacting;
+    if (interacting) {
+      this.stopTimer();
+    } else if (this.waiting) {
+      this.startTimer();
+    }
+  }
+
+  private startTimer(): void {
+    this.stopTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const task = this.waiting;
+      this.waiting = null;
+      task?.();
+    }, this.delay);
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  cancel(): void {
+    this.stopTimer();
+    this.waiting = null;
+  }
+}
+
+/**
+ * Runs when the browser is idle (requestIdleCallback), at the latest after
+ * `timeout` ms. Falls back to a zero-delay timer where idle callbacks are not
+ * supported.
+ */
+class IdleScheduler implements QueryScheduler {
+  private readonly timeout: number;
+  private idleHandle: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(timeout: number) {
+    this.timeout = timeout;
+  }
+
+  schedule(task: () => void): void {
+    this.cancel();
+    if (typeof requestIdleCallback === 'function') {
+      this.idleHandle = requestIdleCallback(
+        () => {
+          this.idleHandle = null;
+          task();
+        },
+        { timeout: this.timeout }
+      );
+    } else {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        task();
+      }, 0);
+    }
+  }
+
+  cancel(): void {
+    if (this.idleHandle !== null) {
+      cancelIdleCallback(this.idleHandle);
+      this.idleHandle = null;
+    }
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Create one of the built-in schedulers
+ */
+export function createQueryScheduler(options: QuerySchedulingOptions): QueryScheduler {
+  switch (options.mode) {
+    case 'throttle':
+      return new ThrottleScheduler(Math.max(0, options.interval ?? 300));
+    case 'debounce':
+      return new DebounceScheduler(Math.max(0, options.delay ?? 200), false);
+    case 'interaction-end':
+      return new DebounceScheduler(Math.max(0, options.delay ?? 200), true);
+    case 'idle':
+      return new IdleScheduler(Math.max(0, options.timeout ?? 1000));
+  }
+}
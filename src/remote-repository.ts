@@ -0,0 +1,193 @@
+import { tableFromIPC } from 'apache-arrow';
+import type { Vector } from 'apache-arrow';
+import type {
+  DataRepository,
+  ParquetData,
+  RepositoryLoadOptions,
+  RepositoryQuery,
+} from './repository.js';
+import type { DataSource } from './types.js';
+import { CodedError } from './errors.js';
+import type { SqlValue } from './sql.js';
+import { toBindableParam } from './sql.js';
+
+export interface RemoteSqlRepositoryOptions {
+  /**
+   * URL that accepts `POST { "sql": "...", "params"?: [...] }` and responds with an
+   * Arrow IPC stream. When present, params are bound to the `?` placeholders.
+   */
+  endpoint: string | URL;
+  /** Extra request headers (e.g. authorization); a function is called per request */
+  headers?: Record<string, string> | (() => Record<string, string>);
+  /** Credentials mode for cross-origin requests (default: 'same-origin') */
+  credentials?: RequestCredentials;
+}
+
+/**
+ * Data repository that runs queries on a server
+ *
+ * Each query's SQL is POSTed as JSON (`{ "sql": "...", "params"?: [...] }`) to the endpoint, which
+ * must execute it with DuckDB against a table or view named `parquet_data` and
+ * return the result as Arrow IPC (file or stream format). A viewport query cancels the
+ * viewport query still in flight, since DataLayer discards superseded results anyway;
+ * so does aborting the `signal` of a query.
+ *
+ * @example
+ * ```ts
+ * const plot = new ScatterPlot({
+ *   canvas,
+ *   repository: new RemoteSqlRepository({ endpoint: '/api/query' }),
+ *   data: { idColumn: 'id' },
+ * });
+ * ```
+ */
+export class RemoteSqlRepository implements DataRepository {
+  private readonly options: RemoteSqlRepositoryOptions;
+  private readonly inFlight = new Set<AbortController>();
+  private viewportController: AbortController | null = null;
+
+  constructor(options: RemoteSqlRepositoryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Check that the server is reachable and exposes the id column
+   *
+   * The dataset lives on the server, so `source` is ignored.
+   */
+  async load(
+    _source: DataSource | undefined,
+    idColumn: string,
+    options: RepositoryLoadOptions = {}
+  ): Promise<void> {
+    options.onProgress?.({ phase: 'table' });
+
+    let columns: string[];
+    try {
+      columns = await this.describe(options.signal);
+    } catch (e) {
+      if (options.signal?.aborted) throw e;
+      throw new CodedError(
+        'NETWORK_ERROR',
+        `Failed to reach ${this.options.endpoint}: ${e instanceof Error ? e.message : String(e)}`,
+        { endpoint: String(this.options.endpoint) }
+      );
+    }
+
+    if (!columns.includes(idColumn)) {
+      throw new CodedError('INVALID_COLUMN_TYPE', `ID column "${idColumn}" is missing`, {
+        column: idColumn,
+      });
+    }
+  }
+
+  async query(query: RepositoryQuery): Promise<ParquetData> {
+    if (query.request?.kind !== 'viewport') {
+      return this.execute(query.toString(), query.params, query.signal);
+    }
+
+    this.viewportController?.abort();
+    const controller = new AbortController();
+    this.viewportController = controller;
+    try {
+      return await this.execute(query.toString(), query.params, controller.signal, query.signal);
+    } finally {
+      if (this.viewportController === controller) {
+        this.viewportController = null;
+      }
+    }
+  }
+
+  async getSchema(): Promise<string[]> {
+    return this.describe();
+  }
+
+  /**
+   * Cancel all requests in flight
+   */
+  async close(): Promise<void> {
+    for (const controller of this.inFlight) {
+      controller.abort();
+    }
+    this.inFlight.clear();
+    this.viewportController = null;
+  }
+
+  /**
+   * Column names of parquet_data
+   *
+   * Uses DESCRIBE rather than an empty SELECT, because Arrow IPC writers may
+   * omit the schema of a result without record batches.
+   */
+  private async describe(signal?: AbortSignal): Promise<string[]> {
+    const data = await this.execute('DESCRIBE parquet_data', undefined, signal);
+    const names = data.columnData.get('column_name');
+    const columns: string[] = [];
+    for (let i = 0; i < data.rowCount; i++) {
+      columns.push(String(names?.get(i)));
+    }
+    return columns;
+  }
+
+  /**
+   * POST a query and decode the Arrow IPC response
+   * @param signals Abort the request when any of them aborts (linked by hand,
+   *   as AbortSignal.any is missing in older browsers)
+   */
+  private async execute(
+    sql: string,
+    params: SqlValue[] | undefined,
+    ...signals: (AbortSignal | undefined)[]
+  ): Promise<ParquetData> {
+    const linked = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+    for (const signal of linked) {
+      signal.throwIfAborted();
+    }
+    const controller = new AbortController();
+    const onAbort = (event: Event) => controller.abort((event.target as AbortSignal).reason);
+    for (const signal of linked) {
+      signal.addEventListener('abort', onAbort);
+    }
+    this.inFlight.add(controller);
+
+    try {
+      const headers =
+        typeof this.options.headers === 'function'
+          ? this.options.headers()
+          : (this.options.headers ?? {});
+      const response = await fetch(this.options.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/vnd.apache.arrow.stream',
+          ...headers,
+        },
+        body: JSON.stringify(params ? { sql, params: params.map(toBindableParam) } : { sql }),
+        credentials: this.options.credentials ?? 'same-origin',
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(
+          `Remote query failed: HTTP ${response.status} ${response.statusText}` +
+            (detail ? ` - ${detail}` : '')
+        );
+      }
+
+      const table = tableFromIPC(new Uint8Array(await response.arrayBuffer()));
+      const columns = table.schema.fields.map((field) => field.name);
+      const columnData = new Map<string, Vector>();
+      for (let j = 0; j < table.numCols; j++) {
+        columnData.set(columns[j], table.getChildAt(j)!);
+      }
+
+      return { columns, columnData, rowCount: table.numRows };
+    } finally {
+      for (const signal of linked) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      this.inFlight.delete(controller);
+    }
+  }
+}
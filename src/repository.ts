@@ -1,4 +1,23 @@
 import * as duckdb from '@duckdb/duckdb-wasm';
+import { Table, tableFromIPC } from 'apache-arrow';
+import type {
+  DataFormat,
+  DataSource,
+  DuckDBOptions,
+  ErrorCode,
+  LoadOptions,
+  LoadProgress,
+  SamplingStrategy,
+  WhereCondition,
+} from './types.js';
+import type { VisibleBounds } from './layers/data-layer.js';
+import type { TilePyramidSpec } from './tile-pyramid.js';
+import type { ColorScale, SizeScale } from './encoding.js';
+import { TILE_LEVEL_COLUMN, tileLevelSql, tileOrderSql } from './tile-pyramid.js';
+import type { SqlValue } from './sql.js';
+import { isNumericType, quoteIdentifier, quoteString, toBindableParam } from './sql.js';
+import { describeDataSource, detectDataFormat, readDataSource } from './data-source.js';
+import { CodedError } from './errors.js';
 
 export interface ParquetData {
   columns: string[];
@@ -6,54 +25,585 @@ export interface ParquetData {
   rowCount: number;
 }
 
-export class ParquetReader {
+/** SQL for the columns projected into every rendered point */
+export interface PointProjection {
+  xSql: string;
+  ySql: string;
+  sizeSql: string;
+  /** Size encoding that sizeSql was compiled from, for repositories that do not run SQL */
+  sizeScale?: SizeScale;
+  colorSql: string;
+  /** Color encoding that colorSql was compiled from, for repositories that do not run SQL */
+  colorScale?: ColorScale;
+  idColumn: string;
+}
+
+/** Points inside the bounds that match the filters, as __x__, __y__, __size__, __color__ and id */
+export interface ViewportRequest {
+  kind: 'viewport';
+  projection: PointProjection;
+  bounds: VisibleBounds;
+  whereConditions: WhereCondition[];
+  limit: number;
+  /** Rows of the sampling order skipped before the limit (default: 0) */
+  offset?: number;
+  sampling: SamplingStrategy;
+}
+
+/** All columns of the point with the given id, plus __x__, __y__, __size__ and __color__ */
+export interface PointLookupRequest {
+  kind: 'point';
+  projection: PointProjection;
+  id: unknown;
+}
+
+/** min_x, max_x, min_y, max_y of the matching rows, optionally percentile-clipped */
+export interface ExtentRequest {
+  kind: 'extent';
+  xSql: string;
+  ySql: string;
+  whereConditions: WhereCondition[];
+  clipPercentile: number;
+}
+
+/**
+ * Result types of the expressions, as the column_name/column_type rows of DESCRIBE.
+ * Fails if an expression does not bind.
+ */
+export interface ExpressionTypesRequest {
+  kind: 'types';
+  /** Expressions keyed by result column name */
+  expressions: Record<string, string>;
+}
+
+/** min and max (as doubles) of a column over all rows */
+export interface ColumnRangeRequest {
+  kind: 'range';
+  column: string;
+}
+
+/** Most frequent non-NULL values of a column, as value/count rows by descending count */
+export interface CategoriesRequest {
+  kind: 'categories';
+  column: string;
+  limit: number;
+  /** Count only these values */
+  values?: (string | number | boolean)[];
+}
+
+/** column_name, column_type and null ("YES"/"NO") rows of DESCRIBE parquet_data */
+export interface DescribeRequest {
+  kind: 'describe';
+}
+
+/**
+ * min, max, null_count and distinct_count of a column over all rows; min and max
+ * are doubles for numeric columns and NULL for types without an order
+ */
+export interface ColumnStatsRequest {
+  kind: 'column-stats';
+  column: string;
+}
+
+/** Rows an aggregate runs over: rows matching the filters, inside the bounds when given */
+export interface RowSelection {
+  whereConditions: WhereCondition[];
+  /** Bounds of xSql/ySql the rows must lie in */
+  bounds?: VisibleBounds;
+  xSql: string;
+  ySql: string;
+}
+
+/**
+ * bin/count rows counting the selected values of a numeric column in `bins` equal
+ * bins over the domain; bins without rows are omitted
+ */
+export interface HistogramRequest extends RowSelection {
+  kind: 'histogram';
+  column: string;
+  domain: [number, number];
+  bins: number;
+}
+
+/** Most frequent non-NULL selected values of a column, as value/count rows by descending count */
+export interface TopValuesRequest extends RowSelection {
+  kind: 'top-values';
+  column: string;
+  limit: number;
+}
+
+/** count, null_count, min, max, mean and stddev (sample) of the selected values of a numeric column */
+export interface SummaryRequest extends RowSelection {
+  kind: 'summary';
+  column: string;
+}
+
+/** Single count row with the number of selected rows */
+export interface CountRequest extends RowSelection {
+  kind: 'count';
+}
+
+export type QueryRequest =
+  | ViewportRequest
+  | PointLookupRequest
+  | ExtentRequest
+  | ExpressionTypesRequest
+  | ColumnRangeRequest
+  | CategoriesRequest
+  | DescribeRequest
+  | ColumnStatsRequest
+  | HistogramRequest
+  | TopValuesRequest
+  | SummaryRequest
+  | CountRequest;
+
+/**
+ * Query passed to a repository: the SQL text, plus a structured description of the
+ * query for repositories that cannot execute SQL. Ad-hoc queries have no request.
+ */
+export interface RepositoryQuery {
+  toString(): string;
+  /** Values bound to the `?` placeholders in the SQL, run as a prepared statement */
+  params?: SqlValue[];
+  request?: QueryRequest;
+  /**
+   * Set on viewport queries: aborted once the result is no longer needed.
+   * Implementations should cancel the query, or may ignore the signal.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Storage and query backend behind DataLayer
+ *
+ * The default implementation is ParquetReader (DuckDB-WASM). Implementations that
+ * cannot execute SQL answer the structured `request` of each query instead.
+ */
+export interface DataRepository {
+  /** Load a dataset into the repository (may be a no-op for preloaded repositories) */
+  load(
+    source: DataSource | undefined,
+    idColumn: string,
+    options?: RepositoryLoadOptions
+  ): Promise<void>;
+  /** Run a query and return its result as columns */
+  query(query: RepositoryQuery): Promise<ParquetData>;
+  /** Column names of the dataset */
+  getSchema(): Promise<string[]>;
+  /**
+   * Add the tile pyramid level column to the dataset (optional; see TilePyramidSpec).
+   * Rebuilding replaces the previous pyramid.
+   */
+  buildTilePyramid?(spec: TilePyramidSpec): Promise<void>;
+  /** Load GeoJSON label features into a label_data table (optional) */
+  loadGeoJson?(geojson: any): Promise<void>;
+  /** Release all resources */
+  close(): Promise<void>;
+}
+
+/** Options for loading a dataset into the parquet_data table */
+export interface RepositoryLoadOptions extends LoadOptions {
+  /** Column names or SQL expressions for the x and y coordinates (default: x, y) */
+  coordinateSql?: [string, string];
+  /** Cancels the download; checked again between loading phases */
+  signal?: AbortSignal;
+  /** Called as loading advances through its phases */
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+/** DuckDB table functions used to read each file-based format */
+const READ_FUNCTIONS: Record<Exclude<DataFormat, 'arrow'>, string> = {
+  parquet: 'read_parquet',
+  csv: 'read_csv_auto',
+  json: 'read_json_auto',
+};
+
+/** Error codes reported when a format fails to parse */
+const PARSE_ERROR_CODES: Record<DataFormat, ErrorCode> = {
+  parquet: 'PARQUET_LOAD_FAILED',
+  csv: 'CSV_PARSE_FAILED',
+  arrow: 'ARROW_PARSE_FAILED',
+  json: 'JSON_PARSE_FAILED',
+};
+
+/** Matches a bare or double-quoted column name (as opposed to a SQL expression) */
+const PLAIN_COLUMN_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*|"([^"]|"")+")$/;
+
+// Remote files get a new name per attach: DuckDB caches Parquet metadata by file
+// name, and readers may share a database instance
+let remoteFileCount = 0;
+
+export class ParquetReader implements DataRepository {
   private db: duckdb.AsyncDuckDB | null = null;
   private conn: duckdb.AsyncDuckDBConnection | null = null;
+  // Separate connection for cancellable queries, opened on first use
+  private cancellableConn: Promise<duckdb.AsyncDuckDBConnection> | null = null;
+  private readonly options: DuckDBOptions;
+  private ownsDatabase: boolean = true; // false when the caller supplied the instance
+  private isRemoteView: boolean = false; // parquet_data is a view over an HTTP range-read file
+  private remoteFile: string | null = null; // Registered name of the file behind the view
+  private hasTilePyramid: boolean = false;
+
+  constructor(options: DuckDBOptions = {}) {
+    this.options = options;
+  }
 
   async initialize(): Promise<void> {
-    const JSDELIVR_BUNDLES = duckdb.getJsDelivrBundles();
+    // Caller-provided instance: just open a connection on it
+    if (this.options.instance) {
+      this.db = this.options.instance;
+      this.ownsDatabase = false;
+      this.conn = await this.db.connect();
+      return;
+    }
 
-    const bundle = await duckdb.selectBundle(JSDELIVR_BUNDLES);
+    const bundles = this.options.bundles ?? duckdb.getJsDelivrBundles();
 
-    const worker_url = URL.createObjectURL(
-      new Blob([`importScripts("${bundle.mainWorker}");`], { type: 'text/javascript' })
-    );
+    const bundle = await duckdb.selectBundle(bundles);
+    if (!bundle.mainWorker) {
+      throw new Error('DuckDB bundle has no mainWorker URL');
+    }
+
+    // A cross-origin worker script (the jsDelivr default) cannot be passed to new Worker()
+    // directly, so it is wrapped in a same-origin blob that imports it. Self-hosted
+    // bundles are same-origin and can be used as-is, which also works under a CSP
+    // that forbids blob: workers.
+    const useBlobWorker = this.options.useBlobWorker ?? this.options.bundles === undefined;
+    const worker_url = useBlobWorker
+      ? URL.createObjectURL(
+          new Blob([`importScripts("${bundle.mainWorker}");`], { type: 'text/javascript' })
+        )
+      : null;
 
-    const worker = new Worker(worker_url);
+    const worker = new Worker(worker_url ?? bundle.mainWorker);
     const logger = new duckdb.ConsoleLogger();
 
     this.db = new duckdb.AsyncDuckDB(logger, worker);
     await this.db.instantiate(bundle.mainModule, bundle.pthreadWorker);
+    // DuckDB-WASM downloads HTTP files in full unless told otherwise, which would
+    // defeat `load.httpRange`
+    await this.db.open({ filesystem: { forceFullHTTPReads: false } });
 
-    URL.revokeObjectURL(worker_url);
+    if (worker_url) {
+      URL.revokeObjectURL(worker_url);
+    }
 
     this.conn = await this.db.connect();
   }
 
   async loadParquetFromUrl(url: string, idColumn: string): Promise<void> {
+    await this.load(url, idColumn, { format: 'parquet' });
+  }
+
+  /**
+   * Load a dataset from any supported source and format into the parquet_data table
+   */
+  async load(
+    source: DataSource | undefined,
+    idColumn: string,
+    options: RepositoryLoadOptions = {}
+  ): Promise<void> {
     if (!this.conn) {
       throw new Error('Database not initialized. Call initialize() first.');
     }
+    if (source === undefined) {
+      throw new CodedError('PARQUET_LOAD_FAILED', 'No data source provided');
+    }
 
-    const response = await fetch(url);
-    const arrayBuffer = await response.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
+    const { signal, onProgress } = options;
+    const coordinateSql = options.coordinateSql ?? ['x', 'y'];
 
-    await this.db!.registerFileBuffer('temp.parquet', uint8Array);
+    if (options.httpRange) {
+      onProgress?.({ phase: 'table' });
+      await this.dropData();
+      await this.attachRemoteParquet(source, options);
+      signal?.throwIfAborted();
+      await this.validateColumns(idColumn, coordinateSql, false);
+      return;
+    }
+
+    let bytes: Uint8Array;
+    try {
+      onProgress?.({ phase: 'download', loadedBytes: 0 });
+      bytes = await readDataSource(source, {
+        signal,
+        onProgress: (loadedBytes, totalBytes) =>
+          onProgress?.({ phase: 'download', loadedBytes, totalBytes }),
+      });
+    } catch (e) {
+      // Cancellation is not a load failure; let the caller see the abort reason
+      if (signal?.aborted) {
+        throw e;
+      }
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new CodedError(
+        'PARQUET_LOAD_FAILED',
+        `Failed to load data from ${describeDataSource(source)}: ${reason}`,
+        { source: describeDataSource(source) }
+      );
+    }
+
+    const format = options.format ?? detectDataFormat(source, bytes);
+
+    signal?.throwIfAborted();
+    onProgress?.({ phase: 'table' });
+    await this.dropData();
+    try {
+      await this.createTable(format, bytes);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new CodedError(PARSE_ERROR_CODES[format], `Failed to parse ${format} data: ${reason}`, {
+        source: describeDataSource(source),
+        format,
+      });
+    }
+
+    signal?.throwIfAborted();
+    await this.validateColumns(idColumn, coordinateSql);
+
+    signal?.throwIfAborted();
+    onProgress?.({ phase: 'index' });
+    await this.createIdIndex(idColumn);
+  }
+
+  /**
+   * Expose a remote Parquet file as the parquet_data view without downloading it.
+   *
+   * The URL is registered with DuckDB's HTTP file system, so every query reads only
+   * the footer and the byte ranges it needs. Filters on plain x/y columns are pushed
+   * down into the Parquet scan, where row-group min/max statistics let DuckDB skip
+   * row groups outside the viewport entirely.
+   */
+  private async attachRemoteParquet(source: DataSource, options: LoadOptions): Promise<void> {
+    if (typeof source !== 'string' && !(source instanceof URL)) {
+      throw new CodedError(
+        'PARQUET_LOAD_FAILED',
+        `HTTP range reads require a URL data source, got ${describeDataSource(source)}`
+      );
+    }
+    if (options.format !== undefined && options.format !== 'parquet') {
+      throw new CodedError(
+        'PARQUET_LOAD_FAILED',
+        `HTTP range reads are only supported for Parquet, got ${options.format}`
+      );
+    }
+
+    // The DuckDB worker runs from a blob URL, so relative URLs must be resolved here
+    const url =
+      typeof location !== 'undefined'
+        ? new URL(String(source), location.href).href
+        : String(source);
+
+    const fileName = `remote-${++remoteFileCount}.parquet`;
+    try {
+      await this.db!.registerFileURL(fileName, url, duckdb.DuckDBDataProtocol.HTTP, false);
+      // Cache Parquet footers and HTTP metadata across viewport queries
+      await this.conn!.query('SET enable_object_cache = true');
+      await this.conn!.query('SET enable_http_metadata_cache = true');
+      await this.conn!.query(
+        `CREATE VIEW parquet_data AS SELECT * FROM read_parquet(${quoteString(fileName)})`
+      );
+      this.remoteFile = fileName;
+      this.isRemoteView = true;
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new CodedError('PARQUET_LOAD_FAILED', `Failed to attach remote Parquet: ${reason}`, {
+        source: url,
+      });
+    }
+  }
+
+  /**
+   * Rewrite parquet_data with a tile level column, clustered for tile queries
+   *
+   * The table is recreated, so its id index is rebuilt afterwards.
+   */
+  async buildTilePyramid(spec: TilePyramidSpec): Promise<void> {
+    if (!this.conn) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    if (this.isRemoteView) {
+      throw new Error('Tile pyramids are not available with HTTP range reads');
+    }
+
+    const columns = this.hasTilePyramid ? `* EXCLUDE (${TILE_LEVEL_COLUMN})` : '*';
     await this.conn.query(
-      `CREATE TABLE IF NOT EXISTS parquet_data AS SELECT * FROM read_parquet('temp.parquet')`
+      `CREATE OR REPLACE TABLE parquet_data AS SELECT ${columns}, ${tileLevelSql(spec)} AS ${TILE_LEVEL_COLUMN} FROM parquet_data ORDER BY ${tileOrderSql(spec)}`
     );
-    await this.db!.dropFile('temp.parquet');
-    await this.conn.query(`CREATE UNIQUE INDEX idx_${idColumn} ON parquet_data (${idColumn});`);
+    this.hasTilePyramid = true;
+    await this.createIdIndex(spec.idColumn);
   }
 
-  async query(queryObj: any): Promise<ParquetData> {
+  /**
+   * Index the id column for point lookups
+   */
+  private async createIdIndex(idColumn: string): Promise<void> {
+    await this.conn!.query(
+      `CREATE UNIQUE INDEX ${quoteIdentifier(`idx_${idColumn}`)} ON parquet_data (${quoteIdentifier(idColumn)});`
+    );
+  }
+
+  /**
+   * Drop the parquet_data table or view of an earlier load, which may come from
+   * another reader on a shared instance
+   */
+  private async dropData(): Promise<void> {
+    const existing = await this.conn!.query(
+      `SELECT table_type FROM information_schema.tables WHERE table_name = 'parquet_data'`
+    );
+    if (existing.numRows > 0) {
+      const kind = existing.getChild('table_type')?.get(0) === 'VIEW' ? 'VIEW' : 'TABLE';
+      await this.conn!.query(`DROP ${kind} parquet_data`);
+    }
+    if (this.remoteFile) {
+      await this.db!.dropFile(this.remoteFile);
+      this.remoteFile = null;
+    }
+    this.isRemoteView = false;
+    this.hasTilePyramid = false;
+  }
+
+  /**
+   * Create the parquet_data table from raw bytes of the given format
+   */
+  private async createTable(format: DataFormat, bytes: Uint8Array): Promise<void> {
+    if (format === 'arrow') {
+      // Arrow IPC is decoded in JS (handles both file and stream framing) and inserted directly
+      const table = tableFromIPC(bytes);
+      await this.conn!.insertArrowTable(table, { name: 'parquet_data', create: true });
+      return;
+    }
+
+    const fileName = `temp.${format}`;
+    await this.db!.registerFileBuffer(fileName, bytes);
+    try {
+      await this.conn!.query(
+        `CREATE TABLE parquet_data AS SELECT * FROM ${READ_FUNCTIONS[format]}('${fileName}')`
+      );
+    } finally {
+      await this.db!.dropFile(fileName);
+    }
+  }
+
+  /**
+   * Validate (and coerce where possible) the coordinate and id columns.
+   * Applied identically for every input format.
+   * @param coerce Whether non-numeric coordinate columns may be converted in place
+   *               (not possible for the remote view)
+   */
+  private async validateColumns(
+    idColumn: string,
+    coordinateSql: [string, string],
+    coerce: boolean = true
+  ): Promise<void> {
+    const types = await this.describe('DESCRIBE parquet_data');
+
+    for (const sql of coordinateSql) {
+      if (!PLAIN_COLUMN_PATTERN.test(sql)) {
+        // Computed coordinates: the expression must bind and produce a number
+        let type: string | undefined;
+        try {
+          type = (
+            await this.describe(`DESCRIBE SELECT (${sql}) AS v FROM parquet_data LIMIT 0`)
+          ).get('v');
+        } catch (e) {
+          const reason = e instanceof Error ? e.message : String(e);
+          throw new CodedError(
+            'INVALID_COLUMN_TYPE',
+            `Coordinate expression "${sql}" is invalid: ${reason}`,
+            { expression: sql }
+          );
+        }
+        if (type === undefined || !isNumericType(type)) {
+          throw new CodedError(
+            'INVALID_COLUMN_TYPE',
+            `Coordinate expression "${sql}" has type ${type} but must be numeric`,
+            { expression: sql, type }
+          );
+        }
+        continue;
+      }
+
+      const column = sql.startsWith('"') ? sql.slice(1, -1).replace(/""/g, '"') : sql;
+      const type = types.get(column);
+      if (type === undefined) {
+        throw new CodedError('INVALID_COLUMN_TYPE', `Required column "${column}" is missing`, {
+          column,
+        });
+      }
+      if (!isNumericType(type)) {
+        if (!coerce) {
+          throw new CodedError(
+            'INVALID_COLUMN_TYPE',
+            `Column "${column}" has type ${type} but must be numeric`,
+            { column, type }
+          );
+        }
+        // CSV and JSON readers may infer VARCHAR for dirty numeric columns; try to coerce
+        try {
+          await this.conn!.query(
+            `ALTER TABLE parquet_data ALTER COLUMN ${sql} SET DATA TYPE DOUBLE`
+          );
+        } catch {
+          throw new CodedError(
+            'INVALID_COLUMN_TYPE',
+            `Column "${column}" has type ${type} and cannot be converted to DOUBLE`,
+            { column, type }
+          );
+        }
+      }
+    }
+
+    const idType = types.get(idColumn);
+    if (idType === undefined) {
+      throw new CodedError('INVALID_COLUMN_TYPE', `ID column "${idColumn}" is missing`, {
+        column: idColumn,
+      });
+    }
+    if (/[[\]]|STRUCT|MAP|UNION/.test(idType.toUpperCase())) {
+      throw new CodedError(
+        'INVALID_COLUMN_TYPE',
+        `ID column "${idColumn}" has nested type ${idType}; a scalar type is required`,
+        { column: idColumn, type: idType }
+      );
+    }
+  }
+
+  /**
+   * Run a DESCRIBE statement and return a column name -> type map
+   */
+  private async describe(sql: string): Promise<Map<string, string>> {
+    const result = await this.conn!.query(sql);
+    const nameColumn = result.getChild('column_name');
+    const typeColumn = result.getChild('column_type');
+    const types = new Map<string, string>();
+    for (let i = 0; i < result.numRows; i++) {
+      types.set(nameColumn?.get(i), typeColumn?.get(i));
+    }
+    return types;
+  }
+
+  async query(queryObj: RepositoryQuery): Promise<ParquetData> {
     if (!this.conn) {
       throw new Error('Database not initialized. Call initialize() first.');
     }
 
     const rawSql = queryObj.toString();
-    const result = await this.conn.query(rawSql);
+    let result: Table;
+    if (queryObj.params && queryObj.params.length > 0) {
+      // Prepared statements run to completion; only a query not started yet is cancelled
+      queryObj.signal?.throwIfAborted();
+      const statement = await this.conn.prepare(rawSql);
+      try {
+        result = await statement.query(...queryObj.params.map(toBindableParam));
+      } finally {
+        await statement.close();
+      }
+    } else if (queryObj.signal) {
+      result = await this.cancellableQuery(rawSql, queryObj.signal);
+    } else {
+      result = await this.conn.query(rawSql);
+    }
 
     const columns = result.schema.fields.map((field) => field.name);
     const columnData = new Map<string, any>();
@@ -72,6 +622,35 @@ export class ParquetReader {
     };
   }
 
+  /**
+   * Run a query that DuckDB cancels when the signal aborts
+   *
+   * A sent query is polled rather than run in one go, and any other query on its
+   * connection would invalidate it, so these queries get a connection of their own.
+   */
+  private async cancellableQuery(sql: string, signal: AbortSignal): Promise<Table> {
+    signal.throwIfAborted();
+    this.cancellableConn ??= this.db!.connect();
+    const conn = await this.cancellableConn;
+    signal.throwIfAborted();
+
+    const onAbort = () => {
+      conn.cancelSent().catch(() => {});
+    };
+    signal.addEventListener('abort', onAbort);
+    try {
+      const reader = await conn.send(sql);
+      const batches = await reader.readAll();
+      return new Table(reader.schema, batches);
+    } catch (e) {
+      // Report the abort rather than DuckDB's "query was canceled"
+      signal.throwIfAborted();
+      throw e;
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
   async getSchema(): Promise<string[]> {
     if (!this.conn) {
       throw new Error('Database not initialized. Call initialize() first.');
@@ -82,7 +661,9 @@ export class ParquetReader {
 
     for (let i = 0; i < result.numRows; i++) {
       const nameColumn = result.getChildAt(0);
-      columns.push(nameColumn?.get(i));
+      if (nameColumn?.get(i) !== TILE_LEVEL_COLUMN) {
+        columns.push(nameColumn?.get(i));
+      }
     }
 
     return columns;
@@ -110,19 +691,26 @@ export class ParquetReader {
   }
 
   async close(): Promise<void> {
+    if (this.cancellableConn) {
+      await (await this.cancellableConn).close();
+      this.cancellableConn = null;
+    }
     if (this.conn) {
       await this.conn.close();
       this.conn = null;
     }
     if (this.db) {
-      await this.db.terminate();
+      // Never terminate an instance owned by the caller
+      if (this.ownsDatabase) {
+        await this.db.terminate();
+      }
       this.db = null;
     }
   }
 }
 
-export async function createParquetReader(): Promise<ParquetReader> {
-  const reader = new ParquetReader();
+export async function createParquetReader(options: DuckDBOptions = {}): Promise<ParquetReader> {
+  const reader = new ParquetReader(options);
   await reader.initialize();
   return reader;
 }
@@ -1,11 +1,45 @@
-import type { Label, ScatterPlotOptions, ScatterPlotEventMap, ScatterPlotError } from './types.js';
+import type {
+  Label,
+  ScatterPlotOptions,
+  ScatterPlotEventMap,
+  ScatterPlotError,
+  DataSource,
+  LoadOptions,
+  FitOptions,
+  WhereCondition,
+  OperationOptions,
+  DataOptions,
+  ErrorCode,
+  Legend,
+  LegendCategory,
+  ColumnInfo,
+  ColumnStats,
+  AggregateKind,
+  AggregateOptions,
+  AggregateResultMap,
+  ViewportCacheStats,
+} from './types.js';
 import { DataLayer } from './layers/data-layer.js';
 import { GpuLayer } from './layers/gpu-layer.js';
 import { LabelLayer } from './layers/label-layer.js';
-import type { ProcessedData } from './layers/data-layer.js';
+import type { ProcessedData, ViewState, VisibleBounds } from './layers/data-layer.js';
 import type { ParquetData } from './repository.js';
+import type { SqlValue } from './sql.js';
 import { EventEmitter } from './event-emitter.js';
-import { createError } from './errors.js';
+import { createError, CodedError } from './errors.js';
+
+// Canvas events that start and end a drag or touch
+const INTERACTION_START_EVENTS = ['mousedown', 'touchstart'];
+const INTERACTION_END_EVENTS = ['mouseup', 'mouseleave', 'touchend', 'touchcancel'];
+
+/** A watchAggregate() subscription */
+interface AggregateWatch {
+  options: AggregateOptions;
+  callback: (result: AggregateResultMap[AggregateKind]) => void;
+  running: boolean;
+  /** Recompute once the running query finishes */
+  pending: boolean;
+}
 
 /**
  * Main ScatterPlot class for rendering scatter plots using WebGPU
@@ -36,19 +70,42 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
   private labelLayer: LabelLayer;
 
   // Configuration
-  private readonly dataUrl: string;
+  private readonly dataSource?: DataSource;
+  private readonly hasRepository: boolean;
+  private readonly loadOptions: LoadOptions;
   private readonly labelUrl?: string;
 
+  private readonly aggregateWatches = new Set<AggregateWatch>();
+
+  // Pointer interaction tracking for the query scheduler
+  private readonly canvas: HTMLCanvasElement;
+  private readonly onInteractionStart = () => this.dataLayer.setInteracting(true);
+  private readonly onInteractionEnd = () => this.dataLayer.setInteracting(false);
+
   constructor(options: ScatterPlotOptions) {
     super();
 
     // Initialize the three layers
     this.dataLayer = new DataLayer({
       visiblePointLimit: options.data.visiblePointLimit,
+      xSql: options.data.xSql,
+      ySql: options.data.ySql,
       sizeSql: options.data.sizeSql,
+      size: options.data.size,
       colorSql: options.data.colorSql,
+      color: options.data.color,
       whereConditions: options.data.whereConditions,
+      sampling: options.data.sampling,
       idColumn: options.data.idColumn,
+      autoFit: options.data.autoFit,
+      tiles: options.data.tiles,
+      useWorker: options.data.useWorker,
+      cache: options.data.cache,
+      scheduling: options.data.scheduling,
+      viewportMargin: options.data.viewportMargin,
+      progressive: options.data.progressive,
+      repository: options.repository,
+      duckdb: options.duckdb,
       onError: (error) => this.emitError(error),
     });
 
@@ -65,28 +122,71 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
       onPointHover: (data) => this.handlePointHover(data, options.interaction?.onPointHover),
       hoverOutlineOptions: options.labels?.hoverOutlineOptions,
       dataLayer: this.dataLayer,
+      legendOptions: options.legend,
+      onLegendCategoryClick: (category) => this.toggleLegendCategory(category.value),
     });
 
-    // Store URLs for auto-fetch during initialization
-    this.dataUrl = options.dataUrl;
+    // Store sources for auto-fetch during initialization
+    this.dataSource = options.dataSource ?? options.dataUrl;
+    this.hasRepository = options.repository !== undefined;
+    this.loadOptions = options.load ?? {};
     this.labelUrl = options.labels?.url;
+
+    // Label canvas mouse events are forwarded to this canvas
+    this.canvas = options.canvas;
+    for (const type of INTERACTION_START_EVENTS) {
+      this.canvas.addEventListener(type, this.onInteractionStart);
+    }
+    for (const type of INTERACTION_END_EVENTS) {
+      this.canvas.addEventListener(type, this.onInteractionEnd);
+    }
   }
 
   /**
    * Initialize WebGPU and create rendering resources
+   *
+   * Emits `progress` events while the data loads. Aborting `options.signal`
+   * cancels the download, tears down the partially loaded data and emits a
+   * LOAD_ABORTED warning.
    */
-  async initialize(): Promise<void> {
+  async initialize(options: OperationOptions = {}): Promise<void> {
+    const { signal } = options;
+
+    if (this.dataSource === undefined && !this.hasRepository) {
+      this.emitError(
+        createError('PARQUET_LOAD_FAILED', 'No data source provided (set dataSource or dataUrl)')
+      );
+      return;
+    }
+
     try {
       // Get the actual canvas aspect ratio for initial data load
       const aspectRatio = this.gpuLayer.getAspectRatio();
-      const initialData = await this.dataLayer.initialize(this.dataUrl, aspectRatio);
+      const initialData = await this.dataLayer.initialize(this.dataSource, aspectRatio, {
+        ...this.loadOptions,
+        signal,
+        onProgress: (progress) => this.emit('progress', progress),
+      });
+
+      // Start from the view that frames the data
+      this.applyView(this.dataLayer.getInitialView());
 
       // 2. Initialize GPU layer with initial data
       await this.gpuLayer.initialize(initialData);
+      this.emitPoints(initialData);
 
       // 3. Initialize label layer (creates canvas overlay)
       this.labelLayer.initialize();
     } catch (e) {
+      if (signal?.aborted) {
+        this.emitError(
+          createError('LOAD_ABORTED', 'Initialization was aborted', {
+            cause: signal.reason instanceof Error ? signal.reason : undefined,
+          })
+        );
+        return;
+      }
+
       // Emit error event instead of throwing
       const error = this.categorizeInitError(e);
       this.emitError(error);
@@ -95,16 +195,16 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
 
     // 4. Auto-fetch labels if labelUrl is provided
     if (this.labelUrl) {
-      await this.loadLabelsFromUrl(this.labelUrl);
+      await this.loadLabelsFromUrl(this.labelUrl, signal);
     }
   }
 
   /**
    * Load labels from URL with error handling
    */
-  private async loadLabelsFromUrl(url: string): Promise<void> {
+  private async loadLabelsFromUrl(url: string, signal?: AbortSignal): Promise<void> {
     try {
-      const response = await fetch(url);
+      const response = await fetch(url, { signal });
       if (!response.ok) {
         this.emitError(
           createError(
@@ -118,9 +218,13 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
         return;
       }
       const labelData = await response.json();
+      signal?.throwIfAborted();
       this.loadLabels(labelData);
       await this.dataLayer.loadLabelData(labelData);
     } catch (e) {
+      if (signal?.aborted) {
+        return;
+      }
       this.emitError(
         createError('LABEL_FETCH_FAILED', 'Network error while fetching labels', {
           cause: e instanceof Error ? e : undefined,
@@ -130,10 +234,51 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
     }
   }
 
+  /**
+   * Check new size/color expressions, emitting INVALID_EXPRESSION for each one
+   * rejected
+   * @returns The data options without the rejected expressions
+   */
+  private async validateExpressions(data: DataOptions): Promise<DataOptions> {
+    const errors = await this.dataLayer.validateExpressions({
+      sizeSql: data.sizeSql,
+      colorSql: data.colorSql,
+      size: data.size,
+      color: data.color,
+    });
+    for (const error of errors) {
+      this.emitError(this.toScatterPlotError(error, 'INVALID_EXPRESSION'));
+    }
+    const rejected = new Set(errors.map((error) => error.context?.option));
+    return {
+      ...data,
+      sizeSql: rejected.has('sizeSql') ? undefined : data.sizeSql,
+      colorSql: rejected.has('colorSql') ? undefined : data.colorSql,
+      size: rejected.has('size') ? undefined : data.size,
+      color: rejected.has('color') ? undefined : data.color,
+    };
+  }
+
+  /**
+   * Convert an error from a layer into a ScatterPlotError, keeping the code of a CodedError
+   */
+  private toScatterPlotError(e: unknown, fallback: ErrorCode): ScatterPlotError {
+    if (e instanceof CodedError) {
+      return createError(e.code, e.message, { cause: e, context: e.context });
+    }
+    return createError(fallback, e instanceof Error ? e.message : String(e), {
+      cause: e instanceof Error ? e : undefined,
+    });
+  }
+
   /**
    * Categorize an initialization error into a ScatterPlotError
    */
   private categorizeInitError(e: unknown): ScatterPlotError {
+    if (e instanceof CodedError) {
+      return createError(e.code, e.message, { cause: e, context: e.context });
+    }
+
     const message = e instanceof Error ? e.message : String(e);
     const cause = e instanceof Error ? e : undefined;
 
@@ -195,16 +340,88 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
 
   /**
    * Update plot data and re-render
+   *
+   * Aborting `operation.signal` cancels pending label fetches and extent
+   * queries and skips the data refresh; options already applied are kept.
    */
-  async update(options: Partial<ScatterPlotOptions>): Promise<void> {
-    // Update data layer
+  async update(
+    options: Partial<ScatterPlotOptions>,
+    operation: OperationOptions = {}
+  ): Promise<void> {
+    const { signal } = operation;
+
+    // Update data layer. Invalid new expressions are left out, keeping the last
+    // good ones, while the rest of the data options still apply
     if (options.data !== undefined) {
+      const data = await this.validateExpressions(options.data);
+      if (signal?.aborted) {
+        return;
+      }
+
+      const coordinatesChanged =
+        data.xSql !== undefined || data.ySql !== undefined || data.autoFit !== undefined;
+
       this.dataLayer.updateOptions({
-        sizeSql: options.data.sizeSql,
-        colorSql: options.data.colorSql,
-        visiblePointLimit: options.data.visiblePointLimit,
-        whereConditions: options.data.whereConditions,
+        sizeSql: data.sizeSql,
+        colorSql: data.colorSql,
+        visiblePointLimit: data.visiblePointLimit,
+        xSql: data.xSql,
+        ySql: data.ySql,
+        whereConditions: data.whereConditions,
+        sampling: data.sampling,
+        autoFit: data.autoFit,
+        tiles: data.tiles,
+        cache: data.cache,
+        scheduling: data.scheduling,
+        viewportMargin: data.viewportMargin,
+        progressive: data.progressive,
       });
+
+      if (data.size !== undefined) {
+        try {
+          await this.dataLayer.setSizeEncoding(data.size);
+        } catch (e) {
+          this.emitError(this.toScatterPlotError(e, 'INVALID_EXPRESSION'));
+        }
+        if (signal?.aborted) {
+          return;
+        }
+      }
+      if (data.color !== undefined) {
+        try {
+          await this.dataLayer.setColorEncoding(data.color);
+        } catch (e) {
+          this.emitError(this.toScatterPlotError(e, 'INVALID_EXPRESSION'));
+        }
+        if (signal?.aborted) {
+          return;
+        }
+      }
+
+      // New coordinates need a new normalization and a view that frames them
+      if (coordinatesChanged) {
+        try {
+          const view = await this.dataLayer.updateNormalization(this.gpuLayer.getAspectRatio());
+          if (signal?.aborted) {
+            return;
+          }
+          this.applyView(view);
+        } catch (e) {
+          this.emitError(
+            createError('QUERY_FAILED', 'Failed to compute data extent', {
+              cause: e instanceof Error ? e : undefined,
+            })
+          );
+        }
+      }
+
+      // The pyramid is built over the coordinates
+      if (data.xSql !== undefined || data.ySql !== undefined || data.tiles !== undefined) {
+        await this.dataLayer.updateTilePyramid();
+        if (signal?.aborted) {
+          return;
+        }
+      }
     }
 
     // Update GPU layer
@@ -225,10 +442,14 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
 
       // Load labels if URL is provided
       if (options.labels.url !== undefined) {
-        await this.loadLabelsFromUrl(options.labels.url);
+        await this.loadLabelsFromUrl(options.labels.url, signal);
       }
     }
 
+    if (options.legend !== undefined) {
+      this.labelLayer.updateOptions({ legendOptions: options.legend });
+    }
+
     // Update interaction callbacks
     if (options.interaction !== undefined) {
       this.labelLayer.updateOptions({
@@ -236,6 +457,10 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
       });
     }
 
+    if (signal?.aborted) {
+      return;
+    }
+
     this.scheduleDataUpdate();
   }
 
@@ -310,20 +535,78 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
   }
 
   /**
-   * Reset zoom and pan to default
+   * Reset zoom and pan to the initial view that frames the data
    */
   resetView(): void {
-    this.gpuLayer.setZoom(1.0);
-    this.gpuLayer.setPan(0.0, 0.0);
+    this.applyView(this.dataLayer.getInitialView());
 
-    // Update label layer with new view transform
-    this.labelLayer.updateViewTransform(1.0, 0.0, 0.0);
+    // Immediate render (lightweight)
+    this.render();
+
+    // Schedule query for new visible points (throttled)
+    this.scheduleDataUpdate();
+  }
+
+  /**
+   * Zoom and pan so that the points matching a filter fill the view
+   * @param where Conditions selecting the rows to frame (default: current whereConditions)
+   * @param options Outlier clipping and padding
+   * @returns false if no rows match, true otherwise
+   */
+  async fitToData(where?: WhereCondition[], options?: FitOptions): Promise<boolean> {
+    let view: ViewState | null;
+    try {
+      view = await this.dataLayer.computeFitView(this.gpuLayer.getAspectRatio(), where, options);
+    } catch (e) {
+      this.emitError(
+        createError('QUERY_FAILED', 'Failed to compute data extent', {
+          cause: e instanceof Error ? e : undefined,
+          context: { where },
+        })
+      );
+      return false;
+    }
+
+    if (!view) {
+      return false;
+    }
+
+    this.applyView(view);
 
     // Immediate render (lightweight)
     this.render();
 
     // Schedule query for new visible points (throttled)
     this.scheduleDataUpdate();
+    return true;
+  }
+
+  /**
+   * Get the legend model of the active color and size encodings
+   */
+  getLegend(): Legend {
+    return this.dataLayer.getLegend();
+  }
+
+  /**
+   * Show or hide the points of a category of the categorical color encoding,
+   * as clicking it in the legend overlay does
+   * @returns Whether the category is hidden now
+   */
+  toggleLegendCategory(value: LegendCategory['value']): boolean {
+    const hidden = this.dataLayer.toggleCategory(value);
+    this.render();
+    this.scheduleDataUpdate();
+    return hidden;
+  }
+
+  /**
+   * Apply a zoom/pan state to the GPU and label layers without rendering
+   */
+  private applyView(view: ViewState): void {
+    this.gpuLayer.setZoom(view.zoom);
+    this.gpuLayer.setPan(view.panX, view.panY);
+    this.labelLayer.updateViewTransform(this.gpuLayer.getZoom(), view.panX, view.panY);
   }
 
   /**
@@ -376,15 +659,37 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
       pan.y,
       aspectRatio,
       (data: ProcessedData) => {
-        // Update GPU layer with new data
-        this.gpuLayer.updateInstanceBuffer(data);
+        // Update GPU layer with new data; chunks of a progressive query are appended
+        if (data.appendOffset !== undefined) {
+          this.gpuLayer.appendInstanceData(data);
+        } else {
+          this.gpuLayer.updateInstanceBuffer(data);
+        }
 
         // Re-render with new data
         this.render();
+
+        // Counts and aggregates wait for the last chunk
+        if (!data.refining) {
+          this.emitPoints(data);
+          this.refreshAggregates();
+        }
       }
     );
   }
 
+  /**
+   * Report the rendered and matching row counts of new points
+   */
+  private emitPoints(data: ProcessedData): void {
+    this.emit('points', {
+      rowCount: data.rowCount,
+      totalCount: data.totalCount,
+      truncated: data.totalCount > data.rowCount,
+      visiblePointLimit: data.visiblePointLimit,
+    });
+  }
+
   /**
    * Handle point hover events from label layer
    */
@@ -398,8 +703,118 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
     }
   }
 
-  async runQuery(query: string | { toString: () => string }): Promise<ParquetData | undefined> {
-    return await this.dataLayer.executeQuery(query);
+  async runQuery(
+    query: string | { toString: () => string },
+    params?: SqlValue[]
+  ): Promise<ParquetData | undefined> {
+    return await this.dataLayer.executeQuery(query, params);
+  }
+
+  /**
+   * Columns of the dataset with their DuckDB types. DESCRIBE reports every column
+   * of a loaded table as nullable, so NULLs are counted by getColumnStats() instead.
+   */
+  async getSchema(): Promise<ColumnInfo[]> {
+    return await this.dataLayer.getSchema();
+  }
+
+  /**
+   * Min/max, null count, distinct count and, for low-cardinality columns, the
+   * most frequent values of a column. Computed on first request, then cached
+   * until the data is reloaded.
+   */
+  async getColumnStats(column: string): Promise<ColumnStats> {
+    return await this.dataLayer.getColumnStats(column);
+  }
+
+  /**
+   * Histogram, most frequent values or summary statistics of a column over the
+   * points in the current view (default), all filtered points, or all rows
+   */
+  async aggregate<K extends AggregateKind>(
+    options: AggregateOptions & { kind: K }
+  ): Promise<AggregateResultMap[K]> {
+    return await this.dataLayer.aggregate(options, this.getViewBounds());
+  }
+
+  /**
+   * Compute an aggregate now and again after every data update (view or filter
+   * change), for 'viewport' and 'filtered' scopes. Updates are throttled with the
+   * viewport queries, and a recompute requested while one runs waits for it.
+   * Failures are emitted as QUERY_FAILED errors. Call after initialize().
+   * @returns Function that stops watching
+   */
+  watchAggregate<K extends AggregateKind>(
+    options: AggregateOptions & { kind: K },
+    callback: (result: AggregateResultMap[K]) => void
+  ): () => void {
+    const watch: AggregateWatch = {
+      options,
+      callback: callback as AggregateWatch['callback'],
+      running: false,
+      pending: false,
+    };
+    this.aggregateWatches.add(watch);
+    this.refreshAggregate(watch);
+    return () => {
+      this.aggregateWatches.delete(watch);
+    };
+  }
+
+  private refreshAggregates(): void {
+    for (const watch of this.aggregateWatches) {
+      // Rows of the 'all' scope do not change with the view or the filters
+      if (watch.options.scope !== 'all') {
+        this.refreshAggregate(watch);
+      }
+    }
+  }
+
+  private async refreshAggregate(watch: AggregateWatch): Promise<void> {
+    if (watch.running) {
+      watch.pending = true;
+      return;
+    }
+    watch.running = true;
+    try {
+      do {
+        watch.pending = false;
+        try {
+          const result = await this.dataLayer.aggregate(watch.options, this.getViewBounds());
+          // A result superseded by a newer request is dropped
+          if (!watch.pending && this.aggregateWatches.has(watch)) {
+            watch.callback(result);
+          }
+        } catch (e) {
+          if (this.aggregateWatches.has(watch)) {
+            this.emitError(this.toScatterPlotError(e, 'QUERY_FAILED'));
+          }
+        }
+      } while (watch.pending && this.aggregateWatches.has(watch));
+    } finally {
+      watch.running = false;
+    }
+  }
+
+  /**
+   * Data bounds of the visible area, without the prefetch margin
+   */
+  private getViewBounds(): VisibleBounds {
+    const pan = this.gpuLayer.getPan();
+    return this.dataLayer.calculateVisibleBounds(
+      this.gpuLayer.getZoom(),
+      pan.x,
+      pan.y,
+      this.gpuLayer.getAspectRatio(),
+      0
+    );
+  }
+
+  /**
+   * Hit and miss counts of the viewport result cache, for tuning its options
+   */
+  getViewportCacheStats(): ViewportCacheStats {
+    return this.dataLayer.getViewportCacheStats();
   }
 
   getLabels(): Label[] {
@@ -410,6 +825,13 @@ export class ScatterPlot extends EventEmitter<ScatterPlotEventMap> {
    * Destroy resources
    */
   async destroy(): Promise<void> {
+    for (const type of INTERACTION_START_EVENTS) {
+      this.canvas.removeEventListener(type, this.onInteractionStart);
+    }
+    for (const type of INTERACTION_END_EVENTS) {
+      this.canvas.removeEventListener(type, this.onInteractionEnd);
+    }
+    this.aggregateWatches.clear();
     await this.dataLayer.destroy();
     this.gpuLayer.destroy();
     this.labelLayer.destroy();
@@ -0,0 +1,97 @@
+/**
+ * Helpers for generating DuckDB SQL from user-supplied names and values
+ */
+
+/** Values that can be written as SQL literals or bound as statement parameters */
+export type SqlValue = string | number | bigint | boolean | Date | null;
+
+/**
+ * Quote an identifier (column name), escaping embedded double quotes
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a string literal, escaping embedded single quotes
+ */
+export function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Write a timestamp literal; Dates are written in UTC
+ */
+export function timestampLiteral(value: Date | string): string {
+  const text =
+    value instanceof Date ? value.toISOString().replace('T', ' ').replace('Z', '') : value;
+  return `TIMESTAMP ${quoteString(text)}`;
+}
+
+/**
+ * Write a value as a SQL literal of the matching type
+ */
+export function sqlLiteral(value: SqlValue): string {
+  if (value === null) {
+    return 'NULL';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot use ${value} as a SQL value`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'bigint') {
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  if (value instanceof Date) {
+    return timestampLiteral(value);
+  }
+  return quoteString(value);
+}
+
+/**
+ * Check whether a DuckDB column type is numeric
+ */
+export function isNumericType(type: string): boolean {
+  return /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|UHUGEINT|FLOAT|DOUBLE|DECIMAL)(\(\d+,\d+\))?$/.test(
+    type.toUpperCase()
+  );
+}
+
+/**
+ * Check whether a DuckDB column type is an integer type
+ */
+export function isIntegerType(type: string): boolean {
+  return /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|UHUGEINT)$/.test(
+    type.toUpperCase()
+  );
+}
+
+/**
+ * Write a LIKE pattern matching the value literally, optionally allowing any
+ * text before and/or after it. `%`, `_` and `\` in the value are escaped.
+ */
+export function likePattern(value: string, anyBefore: boolean, anyAfter: boolean): string {
+  const escaped = value.replace(/[\\%_]/g, (c) => `\\${c}`);
+  const pattern = `${anyBefore ? '%' : ''}${escaped}${anyAfter ? '%' : ''}`;
+  return `${quoteString(pattern)} ESCAPE '\\'`;
+}
+
+/**
+ * Convert a parameter to a JSON-serializable value for binding to a prepared
+ * statement. BigInts and Dates are passed as text and cast by DuckDB to the
+ * parameter type inferred from the statement.
+ */
+export function toBindableParam(value: SqlValue): string | number | boolean | null {
+  if (typeof value === 'bigint') {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString().replace('T', ' ').replace('Z', '');
+  }
+  return value;
+}
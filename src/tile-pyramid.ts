@@ -0,0 +1,162 @@
+import type { VisibleBounds } from './layers/data-layer.js';
+import { quoteIdentifier } from './sql.js';
+
+/** Column holding the shallowest pyramid level that includes each point */
+export const TILE_LEVEL_COLUMN = '__tile_level__';
+
+/**
+ * Quadtree tile pyramid over a square region of data space
+ *
+ * Level L splits the square into 2^L x 2^L tiles. Each tile at level L holds
+ * at most `pointsPerTile` points, chosen by hash of the id; because the choice
+ * is nested (a point sampled for a tile is also sampled for its child tiles),
+ * a single column storing each point's shallowest level describes every level:
+ * the points of a tile at level L are those inside it with level <= L.
+ * Points never sampled get `maxLevel`, so the deepest level holds all points.
+ */
+export interface TilePyramidSpec {
+  xSql: string;
+  ySql: string;
+  idColumn: string;
+  /** Lower-left corner of the square in data space */
+  originX: number;
+  originY: number;
+  /** Side length of the square in data space */
+  size: number;
+  maxLevel: number;
+  pointsPerTile: number;
+}
+
+/** Address of one tile */
+export interface TileCoord {
+  level: number;
+  tx: number;
+  ty: number;
+}
+
+/**
+ * Cache key of a tile, e.g. "3/5/2"
+ */
+export function tileKey(tile: TileCoord): string {
+  return `${tile.level}/${tile.tx}/${tile.ty}`;
+}
+
+/**
+ * SQL expression for the tile column or row of a coordinate at a level
+ */
+function tileIndexSql(sql: string, origin: number, spec: TilePyramidSpec, level: number): string {
+  const tiles = 2 ** level;
+  return `LEAST(floor(((${sql}) - ${origin}) * ${tiles / spec.size}), ${tiles - 1})`;
+}
+
+/**
+ * SQL expression computing each point's shallowest pyramid level
+ */
+export function tileLevelSql(spec: TilePyramidSpec): string {
+  const id = quoteIdentifier(spec.idColumn);
+  const levels: string[] = [];
+  for (let level = 0; level < spec.maxLevel; level++) {
+    const tileX = tileIndexSql(spec.xSql, spec.originX, spec, level);
+    const tileY = tileIndexSql(spec.ySql, spec.originY, spec, level);
+    levels.push(
+      `CASE WHEN row_number() OVER (PARTITION BY ${tileX}, ${tileY} ORDER BY hash(${id}), ${id}) <= ${spec.pointsPerTile} THEN ${level} END`
+    );
+  }
+  return levels.length > 0
+    ? `COALESCE(LEAST(${levels.join(', ')}), ${spec.maxLevel})`
+    : `${spec.maxLevel}`;
+}
+
+/**
+ * Pick the level whose tiles are about half the size of the bounds, so that a
+ * viewport is covered by a handful of tiles
+ */
+export function chooseTileLevel(spec: TilePyramidSpec, bounds: VisibleBounds): number {
+  const extent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+  const level = Math.floor(Math.log2((2 * spec.size) / extent));
+  return Math.max(0, Math.min(spec.maxLevel, Number.isFinite(level) ? level : 0));
+}
+
+/**
+ * Tiles at a level that intersect the bounds
+ */
+export function tilesInBounds(
+  spec: TilePyramidSpec,
+  level: number,
+  bounds: VisibleBounds
+): TileCoord[] {
+  const tiles = 2 ** level;
+  const tileSize = spec.size / tiles;
+  const index = (value: number, origin: number) =>
+    Math.max(0, Math.min(tiles - 1, Math.floor((value - origin) / tileSize)));
+
+  const result: TileCoord[] = [];
+  if (
+    bounds.maxX < spec.originX ||
+    bounds.minX > spec.originX + spec.size ||
+    bounds.maxY < spec.originY ||
+    bounds.minY > spec.originY + spec.size
+  ) {
+    return result;
+  }
+  for (let ty = index(bounds.minY, spec.originY); ty <= index(bounds.maxY, spec.originY); ty++) {
+    for (let tx = index(bounds.minX, spec.originX); tx <= index(bounds.maxX, spec.originX); tx++) {
+      result.push({ level, tx, ty });
+    }
+  }
+  return result;
+}
+
+/**
+ * ORDER BY for the pyramid table: by level, then by deepest tile row and column.
+ * Clustering rows this way lets min/max statistics skip most row groups when a
+ * tile is queried.
+ */
+export function tileOrderSql(spec: TilePyramidSpec): string {
+  const tileX = tileIndexSql(spec.xSql, spec.originX, spec, spec.maxLevel);
+  const tileY = tileIndexSql(spec.ySql, spec.originY, spec, spec.maxLevel);
+  return `${TILE_LEVEL_COLUMN}, ${tileY}, ${tileX}`;
+}
+
+/**
+ * Data bounds covered by tiles of one level (null for no tiles)
+ */
+export function tilesExtent(spec: TilePyramidSpec, tiles: TileCoord[]): VisibleBounds | null {
+  if (tiles.length === 0) {
+    return null;
+  }
+  const tileSize = spec.size / 2 ** tiles[0].level;
+  // Widened like tileWhereSql, so that no point of the tiles falls outside
+  const epsilon = tileSize * 1e-9;
+  const txs = tiles.map((t) => t.tx);
+  const tys = tiles.map((t) => t.ty);
+  return {
+    minX: spec.originX + Math.min(...txs) * tileSize - epsilon,
+    maxX: spec.originX + (Math.max(...txs) + 1) * tileSize + epsilon,
+    minY: spec.originY + Math.min(...tys) * tileSize - epsilon,
+    maxY: spec.originY + (Math.max(...tys) + 1) * tileSize + epsilon,
+  };
+}
+
+/**
+ * WHERE clause selecting the points of a tile
+ *
+ * The range check is what the engine can prune on; the floor/clamp arithmetic is
+ * the same as in the pyramid build, so points on tile edges belong to exactly one tile.
+ */
+export function tileWhereSql(spec: TilePyramidSpec, tile: TileCoord): string {
+  const tileSize = spec.size / 2 ** tile.level;
+  const minX = spec.originX + tile.tx * tileSize;
+  const minY = spec.originY + tile.ty * tileSize;
+  // Widened slightly so rounding in the floor arithmetic cannot drop edge points
+  const epsilon = tileSize * 1e-9;
+  const tileX = tileIndexSql(spec.xSql, spec.originX, spec, tile.level);
+  const tileY = tileIndexSql(spec.ySql, spec.originY, spec, tile.level);
+  return [
+    `${TILE_LEVEL_COLUMN} <= ${tile.level}`,
+    `(${spec.xSql}) BETWEEN ${minX - epsilon} AND ${minX + tileSize + epsilon}`,
+    `(${spec.ySql}) BETWEEN ${minY - epsilon} AND ${minY + tileSize + epsilon}`,
+    `${tileX} = ${tile.tx}`,
+    `${tileY} = ${tile.ty}`,
+  ].join(' AND ');
+}
@@ -1,6 +1,11 @@
 /**
  * Type definitions for scatter-anti library
  */
+import type { AsyncDuckDB, DuckDBBundles } from '@duckdb/duckdb-wasm';
+import type { DataRepository } from './repository.js';
+import type { QueryScheduler } from './query-scheduler.js';
+import type { CategoricalPaletteName, ColorSchemeName } from './color-schemes.js';
+
 export type LabelFilterLambda = (properties: Record<string, any>) => boolean;
 export type PointHoverCallback = (data: { row: any[]; columns: string[] } | null) => void;
 
@@ -36,12 +41,25 @@ export interface Label {
   properties?: Record<string, any>;
 }
 
+/** GeoJSON point feature of a label */
+export interface LabelFeature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: number[] } | null;
+  properties: Record<string, unknown> | null;
+}
+
+/** GeoJSON FeatureCollection of label points, as served at `labels.url` */
+export interface LabelFeatureCollection {
+  type: 'FeatureCollection';
+  features: LabelFeature[];
+}
+
 /**
  * WHERE condition filters for data queries
  */
 
 /** Numeric comparison operators */
-export type NumericOperator = '>=' | '>' | '<=' | '<';
+export type NumericOperator = '>=' | '>' | '<=' | '<' | '=' | '!=';
 
 /** String comparison operators */
 export type StringOperator = 'contains' | 'equals' | 'startsWith' | 'endsWith';
@@ -60,6 +78,65 @@ export interface StringFilter {
   column: string;
   operator: StringOperator;
   value: string;
+  /** Ignore case when matching (default: false) */
+  caseInsensitive?: boolean;
+}
+
+/** Date/timestamp comparison; strings are parsed by DuckDB (e.g. "2024-01-31") */
+export interface DateFilter {
+  type: 'date';
+  column: string;
+  operator: NumericOperator;
+  value: Date | string;
+}
+
+/** Boolean column test */
+export interface BooleanFilter {
+  type: 'boolean';
+  column: string;
+  /** Value to match (default: true) */
+  value?: boolean;
+}
+
+/** Membership in a list of values */
+export interface InFilter {
+  type: 'in';
+  column: string;
+  values: (string | number | bigint | boolean)[];
+}
+
+/** Inclusive range; Date bounds compare as timestamps */
+export interface BetweenFilter {
+  type: 'between';
+  column: string;
+  min: number | Date;
+  max: number | Date;
+}
+
+/** NULL check */
+export interface NullFilter {
+  type: 'null';
+  column: string;
+  /** Match NULL values (true, default) or non-NULL values (false) */
+  isNull?: boolean;
+}
+
+/** All conditions must match (an empty list matches everything) */
+export interface AndFilter {
+  type: 'and';
+  conditions: WhereCondition[];
+}
+
+/** At least one condition must match (an empty list matches nothing) */
+export interface OrFilter {
+  type: 'or';
+  conditions: WhereCondition[];
+}
+
+/** Negation of a condition */
+export interface NotFilter {
+  type: 'not';
+  condition: WhereCondition;
 }
 
 /** Raw SQL filter condition */
@@ -68,24 +145,392 @@ export interface RawSqlFilter {
   sql: string;
 }
 
-/** Union type for all WHERE conditions */
-export type WhereCondition = NumericFilter | StringFilter | RawSqlFilter;
+/**
+ * Union type for all WHERE conditions
+ *
+ * Conditions nest through `and`, `or` and `not`, e.g.
+ * `(lang = 'en' OR lang = 'ja') AND NOT retweet`:
+ * ```ts
+ * [
+ *   { type: 'in', column: 'lang', values: ['en', 'ja'] },
+ *   { type: 'not', condition: { type: 'boolean', column: 'retweet' } },
+ * ]
+ * ```
+ */
+export type WhereCondition =
+  | NumericFilter
+  | StringFilter
+  | DateFilter
+  | BooleanFilter
+  | InFilter
+  | BetweenFilter
+  | NullFilter
+  | AndFilter
+  | OrFilter
+  | NotFilter
+  | RawSqlFilter;
+
+/** Keep the first rows the query returns (fastest, but which rows survive is arbitrary) */
+export interface LimitSampling {
+  type: 'limit';
+}
+
+/** Keep the rows with the lowest hash of the id, so a visible point stays visible while panning */
+export interface HashSampling {
+  type: 'hash';
+}
+
+/** Keep the rows with the highest (or lowest) priority, ties broken by id hash */
+export interface PrioritySampling {
+  type: 'priority';
+  /** Column name or SQL expression to rank by (e.g. "importance") */
+  prioritySql: string;
+  /** Keep the lowest values instead of the highest (default: false) */
+  ascending?: boolean;
+}
+
+/**
+ * Split the viewport into a grid and take points from every non-empty cell in turn,
+ * so sparse regions stay represented next to dense ones
+ */
+export interface GridSampling {
+  type: 'grid';
+  /** Number of cells along each axis of the viewport (default: 32) */
+  gridSize?: number;
+}
+
+/** How rows are chosen when more than visiblePointLimit points are in view */
+export type SamplingStrategy = LimitSampling | HashSampling | PrioritySampling | GridSampling;
+
+/**
+ * Color points by category: the most frequent values (or the listed `domain`)
+ * get the palette colors in order, all other values get `otherColor`
+ */
+export interface CategoricalColorEncoding {
+  type: 'categorical';
+  /** Column name */
+  field: string;
+  /** Palette name or list of "#rrggbb" colors (default: "tableau10") */
+  palette?: CategoricalPaletteName | string[];
+  /** Categories in palette order (default: the most frequent values) */
+  domain?: (string | number | boolean)[];
+  /** Color of values outside the domain and of NULL (default: "#bab0ab") */
+  otherColor?: string;
+  /** Opacity 0-1 (default: 1) */
+  opacity?: number;
+}
+
+/** Color points by a numeric column through a continuous colormap */
+export interface QuantitativeColorEncoding {
+  type: 'quantitative';
+  /** Numeric column name */
+  field: string;
+  /** Colormap name or list of "#rrggbb" stops (default: "viridis") */
+  scheme?: ColorSchemeName | string[];
+  /** Values mapped to the ends of the colormap; values outside are clamped (default: column min/max) */
+  domain?: [number, number];
+  /** Run the colormap from high to low (default: false) */
+  reverse?: boolean;
+  /** Color of NULL values (default: "#bab0ab") */
+  nullColor?: string;
+  /** Opacity 0-1 (default: 1) */
+  opacity?: number;
+}
+
+/** Data-driven point color; compiled into the __color__ expression instead of colorSql */
+export type ColorEncoding = CategoricalColorEncoding | QuantitativeColorEncoding;
+
+/**
+ * Size points by a numeric column: values are clamped to the domain, transformed
+ * by the scale and mapped linearly onto the pixel range. `log` and `sqrt` shift
+ * domains that reach zero or below, so that `log` over counts works like LOG(x + 1).
+ */
+export interface SizeEncoding {
+  /** Numeric column name */
+  field: string;
+  /** Transform applied before mapping (default: "linear") */
+  scale?: 'linear' | 'log' | 'sqrt';
+  /** Values mapped to the ends of the range (default: column min/max) */
+  domain?: [number, number];
+  /** Point sizes in pixels for the ends of the domain */
+  range: [number, number];
+  /** Size of NULL values (default: range[0]) */
+  nullSize?: number;
+}
+
+/** One category of a categorical color legend */
+export interface LegendCategory {
+  value: string | number | bigint | boolean;
+  /** CSS color of the swatch */
+  color: string;
+  /** Rows with this value in the whole table, when known */
+  count: number | null;
+  /** Whether the category is filtered out (see ScatterPlot.toggleLegendCategory) */
+  hidden: boolean;
+}
+
+/** Legend of a categorical color encoding */
+export interface CategoricalLegend {
+  type: 'categorical';
+  field: string;
+  categories: LegendCategory[];
+  /** CSS color of all other values and NULL */
+  otherColor: string;
+}
+
+/** Legend of a quantitative color encoding: a gradient with labeled ticks */
+export interface GradientLegend {
+  type: 'gradient';
+  field: string;
+  domain: [number, number];
+  /** Gradient stops, offset 0 at domain[0] and 1 at domain[1] */
+  stops: { offset: number; color: string }[];
+  ticks: { value: number; offset: number }[];
+}
+
+/** Legend of a size encoding: sample values with their point sizes in pixels */
+export interface SizeLegend {
+  type: 'size';
+  field: string;
+  entries: { value: number; size: number }[];
+}
+
+/** Keys for the active encodings (null where colorSql/sizeSql is used) */
+export interface Legend {
+  color: CategoricalLegend | GradientLegend | null;
+  size: SizeLegend | null;
+}
+
+/** A column of the dataset */
+export interface ColumnInfo {
+  name: string;
+  /** DuckDB type name, e.g. "DOUBLE", "VARCHAR", "TIMESTAMP" */
+  type: string;
+}
+
+/** Statistics of a column over all rows */
+export interface ColumnStats {
+  /** Smallest and largest value; null for types without an order (lists, blobs) or no values */
+  min: number | string | boolean | Date | null;
+  max: number | string | boolean | Date | null;
+  nullCount: number;
+  distinctCount: number;
+  /**
+   * Most frequent values (up to 20) for columns with at most 100 distinct values,
+   * by descending count; null for other columns
+   */
+  topValues: TopKValue[] | null;
+}
+
+/** Kinds of aggregate computed by plot.aggregate() */
+export type AggregateKind = 'histogram' | 'topk' | 'stats';
+
+/**
+ * Rows an aggregate runs over: the points in the current view that match the
+ * filters, all points that match the filters, or every row
+ */
+export type AggregateScope = 'viewport' | 'filtered' | 'all';
+
+export interface AggregateOptions {
+  column: string;
+  /** histogram and stats need a numeric column; topk works on any column */
+  kind: AggregateKind;
+  /** Number of histogram bins (default: 20) */
+  bins?: number;
+  /** Histogram range; values outside it are not counted (default: min and max in scope) */
+  domain?: [number, number];
+  /** Number of values returned by topk (default: 10) */
+  limit?: number;
+  /** Filters include the legend's hidden categories (default: 'viewport') */
+  scope?: AggregateScope;
+}
+
+/** Histogram bin covering [x0, x1) (the last bin includes x1) */
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+export interface TopKValue {
+  value: string | number | bigint | boolean | Date;
+  count: number;
+}
+
+/** Summary of a numeric column; all but count and nullCount are null without values */
+export interface AggregateStats {
+  /** Rows in scope, including NULLs */
+  count: number;
+  nullCount: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  /** Sample standard deviation (null for fewer than two values) */
+  stddev: number | null;
+}
+
+/** Result of each aggregate kind */
+export interface AggregateResultMap {
+  histogram: HistogramBin[];
+  topk: TopKValue[];
+  stats: AggregateStats;
+}
+
+/** Options for framing the data extent */
+export interface FitOptions {
+  /**
+   * Fraction of points to ignore at each end of the x/y ranges when computing the extent,
+   * e.g. 0.01 frames the 1st to 99th percentile (default: 0)
+   */
+  clipPercentile?: number;
+
+  /** Extra margin around the framed extent as a fraction of its size (default: 0.05) */
+  padding?: number;
+}
+
+/** Options for level-of-detail tile loading */
+export interface TileOptions {
+  /** Deepest pyramid level; level L has 2^L x 2^L tiles (default: 8) */
+  maxLevel?: number;
+
+  /** Maximum number of points per tile (default: 10,000) */
+  pointsPerTile?: number;
+
+  /** Number of tiles kept in memory (default: 256) */
+  cacheSize?: number;
+}
 
 export interface DataOptions {
   /** Maximum number of visible points to render */
   visiblePointLimit?: number;
 
+  /** Column name or SQL expression for the X coordinate (default: "x", e.g. "umap_1") */
+  xSql?: string;
+
+  /** Column name or SQL expression for the Y coordinate (default: "y", e.g. "umap_2") */
+  ySql?: string;
+
   /** SQL expression for point size (e.g., "LOG(favorite_count + 1) * 2 + 2") */
   sizeSql?: string;
 
-  /** SQL expression for point color as ARGB 32-bit integer (e.g., "0xFF0000FF") */
+  /**
+   * Size points by a column through a scale. Takes precedence over sizeSql;
+   * setting sizeSql in a later update() removes the encoding.
+   */
+  size?: SizeEncoding;
+
+  /** SQL expression for point color as ARGB 32-bit signed integer (e.g., "-16776961" for 0xFF0000FF) */
   colorSql?: string;
 
+  /**
+   * Color points by a column with a palette or colormap. Takes precedence over
+   * colorSql; setting colorSql in a later update() removes the encoding.
+   */
+  color?: ColorEncoding;
+
   /** WHERE conditions to filter data (AND only) */
   whereConditions?: WhereCondition[];
 
+  /** How points are sampled when more than visiblePointLimit are in view (default: limit) */
+  sampling?: SamplingStrategy;
+
   /** Column name to identify points */
   idColumn: string;
+
+  /**
+   * Normalize the data extent to world space and frame it after load (default: true).
+   * Set to false to use data coordinates as world coordinates directly.
+   */
+  autoFit?: boolean | FitOptions;
+
+  /**
+   * Build a quadtree tile pyramid after load and fetch only the tiles covering the
+   * viewport, at a level matching the zoom (default: false). Requires a repository
+   * that can build pyramids (the default DuckDB one, without httpRange). Tiles are
+   * sampled before whereConditions are applied, and sampling is ignored.
+   */
+  tiles?: boolean | TileOptions;
+
+  /**
+   * Decode query results and pack the GPU buffers in a Web Worker, off the main
+   * thread (default: true). The worker is the `point-packer.worker.js` module next
+   * to the library files; packing falls back to the main thread where it cannot start.
+   */
+  useWorker?: boolean;
+
+  /**
+   * Cache viewport query results (default: true). Without tiles only; tiles have
+   * their own cache.
+   */
+  cache?: boolean | ViewportCacheOptions;
+
+  /**
+   * When a viewport query runs after the view changes (default: throttle every
+   * 300 ms). Either one of the built-in modes or a custom QueryScheduler.
+   */
+  scheduling?: QuerySchedulingOptions | QueryScheduler;
+
+  /**
+   * Extra fraction of the view queried on each side, so that small pans show
+   * points at once (default: 0.5)
+   */
+  viewportMargin?: number;
+
+  /**
+   * Query each viewport in steps (default: false): a small coarse pass rendered
+   * at once, then the rest of the points in chunks appended to it. Without tiles
+   * only; answers from the viewport cache are rendered in one go. With 'limit'
+   * sampling, the steps take the points in id order.
+   */
+  progressive?: boolean | ProgressiveOptions;
+}
+
+/** Options for progressive viewport queries */
+export interface ProgressiveOptions {
+  /** Fraction of visiblePointLimit queried in the coarse pass (default: 0.05) */
+  coarseFraction?: number;
+  /** Points queried per chunk after the coarse pass (default: a quarter of visiblePointLimit) */
+  chunkSize?: number;
+}
+
+/**
+ * Built-in viewport query scheduling modes
+ *
+ * - `throttle`: at most one query every `interval` ms (default: 300), including
+ *   one for the final view
+ * - `debounce`: one query once the view has not changed for `delay` ms (default: 200)
+ * - `interaction-end`: like debounce, but never while a drag or touch is in progress
+ * - `idle`: one query when the browser is idle, at the latest after `timeout` ms
+ *   (default: 1000)
+ */
+export type QuerySchedulingOptions =
+  | { mode: 'throttle'; interval?: number }
+  | { mode: 'debounce'; delay?: number }
+  | { mode: 'interaction-end'; delay?: number }
+  | { mode: 'idle'; timeout?: number };
+
+/** Options for the viewport result cache */
+export interface ViewportCacheOptions {
+  /** Number of viewport results kept, least recently used first out (default: 8) */
+  size?: number;
+  /**
+   * After a pan, query only the newly exposed strips and merge them with the
+   * points still in view (default: false). Applies when the previous result was
+   * not truncated by visiblePointLimit; otherwise the whole viewport is queried.
+   */
+  incremental?: boolean;
+}
+
+/** Counters of the viewport result cache */
+export interface ViewportCacheStats {
+  /** Viewports answered from the cache without a query */
+  hits: number;
+  /** Viewports answered by querying only the newly exposed strips */
+  incremental: number;
+  /** Viewports queried in full */
+  misses: number;
+  /** Results currently cached */
+  entries: number;
 }
 
 export interface GpuOptions {
@@ -110,17 +555,126 @@ export interface LabelOptions {
   hoverOutlineOptions?: HoverOutlineOptions;
 }
 
+/** Legend drawn on the overlay canvas */
+export interface LegendOptions {
+  /** Draw the legend (default: false) */
+  enabled?: boolean;
+  /** Corner of the canvas to draw it in (default: "top-right") */
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  /** Font size in pixels (default: 12) */
+  fontSize?: number;
+}
+
 export interface InteractionOptions {
   /** Callback fired when a point is hovered */
   onPointHover?: PointHoverCallback;
 }
 
+/**
+ * Source of the dataset: a URL to fetch, an in-memory buffer,
+ * a File/Blob (e.g. from drag-and-drop), or a byte stream
+ */
+export type DataSource =
+  | string
+  | URL
+  | ArrayBuffer
+  | Uint8Array
+  | Blob
+  | ReadableStream<Uint8Array>;
+
+/** Supported input formats for the dataset */
+export type DataFormat = 'parquet' | 'csv' | 'arrow' | 'json';
+
+export interface LoadOptions {
+  /** Input format (default: detected from the file extension, then from magic bytes) */
+  format?: DataFormat;
+
+  /**
+   * Query a remote Parquet URL in place via HTTP range requests instead of downloading it
+   * (default: false). The server must support Range requests. Viewport filters on plain
+   * x/y columns use row-group statistics to skip row groups outside the view.
+   */
+  httpRange?: boolean;
+}
+
+/** Options for the embedded DuckDB-WASM engine */
+export interface DuckDBOptions {
+  /**
+   * Self-hosted bundle URLs (e.g. copied from node_modules/@duckdb/duckdb-wasm/dist)
+   * used instead of the jsDelivr CDN
+   */
+  bundles?: DuckDBBundles;
+
+  /**
+   * Pre-instantiated database to use instead of creating one. The plot opens its own
+   * connection and creates its tables on it, but never terminates the instance.
+   * For `load.httpRange`, open it with `{ filesystem: { forceFullHTTPReads: false } }`,
+   * otherwise DuckDB-WASM downloads the whole file.
+   */
+  instance?: AsyncDuckDB;
+
+  /**
+   * Start the worker through an importScripts() blob URL instead of the bundle's worker
+   * URL (default: true for the jsDelivr bundles, false for self-hosted `bundles`)
+   */
+  useBlobWorker?: boolean;
+}
+
+/** Phase of the data loading pipeline */
+export type LoadPhase = 'download' | 'table' | 'index' | 'query';
+
+/** Progress event payload emitted while the dataset loads */
+export interface LoadProgress {
+  /** Current phase: download, table creation, index creation, or the first viewport query */
+  phase: LoadPhase;
+  /** Bytes received so far (download phase only) */
+  loadedBytes?: number;
+  /** Total bytes when known from Content-Length or the source size (download phase only) */
+  totalBytes?: number;
+}
+
+/** Payload of the points event, emitted whenever a new set of points is rendered */
+export interface PointsUpdate {
+  /** Points rendered */
+  rowCount: number;
+  /**
+   * Rows matching the filters in the queried area (the view plus a prefetch
+   * margin, or the loaded tiles); equals rowCount unless the points were truncated
+   */
+  totalCount: number;
+  /** Whether visiblePointLimit (or tile sampling) left matching rows out */
+  truncated: boolean;
+  visiblePointLimit: number;
+}
+
+/** Options for initialize() and update() */
+export interface OperationOptions {
+  /** Cancels the operation; a cancelled initialize() tears down the partially loaded data */
+  signal?: AbortSignal;
+}
+
 export interface ScatterPlotOptions {
   /** Canvas element to render to */
   canvas: HTMLCanvasElement;
 
-  /** URL to fetch Parquet data from */
-  dataUrl: string;
+  /** URL to fetch Parquet data from (shorthand for a string `dataSource`) */
+  dataUrl?: string;
+
+  /** Parquet data source; takes precedence over `dataUrl` */
+  dataSource?: DataSource;
+
+  /** Options controlling how the data source is loaded */
+  load?: LoadOptions;
+
+  /** DuckDB-WASM engine options (self-hosted bundles, shared instance) */
+  duckdb?: DuckDBOptions;
+
+  /**
+   * Data backend to use instead of DuckDB-WASM (e.g. ArrowTableRepository).
+   * When set, `dataSource` is passed to its `load()` and may be omitted.
+   * The repository is closed when the plot is destroyed.
+   */
+  repository?: DataRepository;
 
   /** Data layer options */
   data: DataOptions;
@@ -133,6 +687,9 @@ export interface ScatterPlotOptions {
 
   /** Interaction callbacks */
   interaction?: InteractionOptions;
+
+  /** Legend overlay for the color and size encodings */
+  legend?: LegendOptions;
 }
 
 /**
@@ -155,7 +712,13 @@ export type ErrorCode =
   // Data errors
   | 'DATA_LAYER_NOT_INITIALIZED'
   | 'PARQUET_LOAD_FAILED'
+  | 'CSV_PARSE_FAILED'
+  | 'ARROW_PARSE_FAILED'
+  | 'JSON_PARSE_FAILED'
+  | 'INVALID_COLUMN_TYPE'
+  | 'LOAD_ABORTED'
   | 'QUERY_FAILED'
+  | 'INVALID_EXPRESSION'
   // Label errors
   | 'LABEL_FETCH_FAILED'
   | 'LABEL_PARSE_FAILED'
@@ -183,4 +746,6 @@ export interface ScatterPlotError {
 /** Event map for ScatterPlot EventEmitter */
 export interface ScatterPlotEventMap {
   error: ScatterPlotError;
+  progress: LoadProgress;
+  points: PointsUpdate;
 }
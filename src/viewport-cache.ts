@@ -0,0 +1,133 @@
+import type { VisibleBounds } from './layers/data-layer.js';
+
+/** A cached viewport query result */
+export interface CachedViewport<T> {
+  /** Everything besides the bounds that the result depends on */
+  queryKey: string;
+  bounds: VisibleBounds;
+  value: T;
+  /** Whether the result holds every matching row (it was not truncated by the limit) */
+  complete: boolean;
+}
+
+/**
+ * LRU cache of viewport query results
+ *
+ * Besides exact matches, a complete result answers any bounds it contains, and
+ * serves as the base of an incremental update for bounds it overlaps.
+ */
+export class ViewportCache<T> {
+  private entries = new Map<string, CachedViewport<T>>();
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  getSize(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Result for the bounds: an exact match, or a complete result covering them.
+   * The latter holds the points of its own bounds; the caller crops it.
+   */
+  get(queryKey: string, bounds: VisibleBounds): CachedViewport<T> | undefined {
+    let entry = this.entries.get(entryKey(queryKey, bounds));
+    if (!entry) {
+      for (const candidate of this.entries.values()) {
+        if (
+          candidate.queryKey === queryKey &&
+          candidate.complete &&
+          containsBounds(candidate.bounds, bounds)
+        ) {
+          entry = candidate;
+        }
+      }
+    }
+    if (entry) {
+      this.touch(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Most recently used complete result whose bounds overlap the given ones
+   */
+  findOverlapping(queryKey: string, bounds: VisibleBounds): CachedViewport<T> | undefined {
+    let found: CachedViewport<T> | undefined;
+    for (const entry of this.entries.values()) {
+      if (entry.queryKey === queryKey && entry.complete && overlapsBounds(entry.bounds, bounds)) {
+        found = entry;
+      }
+    }
+    return found;
+  }
+
+  set(entry: CachedViewport<T>): void {
+    this.touch(entry);
+    while (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  setCapacity(capacity: number): void {
+    this.capacity = capacity;
+    while (this.entries.size > capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Insert or move the entry to the most recently used end
+   */
+  private touch(entry: CachedViewport<T>): void {
+    const key = entryKey(entry.queryKey, entry.bounds);
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+}
+
+function entryKey(queryKey: string, bounds: VisibleBounds): string {
+  return `${bounds.minX},${bounds.maxX},${bounds.minY},${bounds.maxY}|${queryKey}`;
+}
+
+function containsBounds(outer: VisibleBounds, inner: VisibleBounds): boolean {
+  return (
+    outer.minX <= inner.minX &&
+    outer.maxX >= inner.maxX &&
+    outer.minY <= inner.minY &&
+    outer.maxY >= inner.maxY
+  );
+}
+
+function overlapsBounds(a: VisibleBounds, b: VisibleBounds): boolean {
+  return a.minX < b.maxX && a.maxX > b.minX && a.minY < b.maxY && a.maxY > b.minY;
+}
+
+/**
+ * Rectangles covering the part of `bounds` outside `covered`: full-height strips
+ * left and right of it, then strips above and below it within its x range
+ */
+export function uncoveredStrips(bounds: VisibleBounds, covered: VisibleBounds): VisibleBounds[] {
+  const strips: VisibleBounds[] = [];
+  const minX = Math.max(bounds.minX, covered.minX);
+  const maxX = Math.min(bounds.maxX, covered.maxX);
+  if (bounds.minX < covered.minX) {
+    strips.push({ ...bounds, maxX: covered.minX });
+  }
+  if (bounds.maxX > covered.maxX) {
+    strips.push({ ...bounds, minX: covered.maxX });
+  }
+  if (bounds.minY < covered.minY) {
+    strips.push({ minX, maxX, minY: bounds.minY, maxY: covered.minY });
+  }
+  if (bounds.maxY > covered.maxY) {
+    strips.push({ minX, maxX, minY: covered.maxY, maxY: bounds.maxY });
+  }
+  return strips;
+}
@@ -0,0 +1,343 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Float64, Int32, Table, vectorFromArray } from 'apache-arrow';
+import { ArrowTableRepository } from '../src/arrow-repository.js';
+import { DataLayer } from '../src/layers/data-layer.js';
+import type { DataLayerOptions, ProcessedData } from '../src/layers/data-layer.js';
+import { pointTable } from './helpers/data.js';
+
+const layers: DataLayer[] = [];
+
+/**
+ * Data layer over an Arrow table, with world coordinates equal to data
+ * coordinates and viewport queries run as soon as they are scheduled
+ */
+async function createLayer(
+  table: Table,
+  options: Partial<DataLayerOptions> = {}
+): Promise<{ layer: DataLayer; initial: ProcessedData }> {
+  const layer = new DataLayer({
+    idColumn: 'id',
+    repository: new ArrowTableRepository(table),
+    autoFit: false,
+    useWorker: false,
+    scheduling: { schedule: (task) => task(), cancel: () => {} },
+    ...options,
+  });
+  layers.push(layer);
+  const initial = await layer.initialize(undefined);
+  return { layer, initial };
+}
+
+/**
+ * Final result of a viewport update (square canvas)
+ */
+function update(layer: DataLayer, zoom: number, panX = 0, panY = 0): Promise<ProcessedData> {
+  return new Promise((resolve) => {
+    layer.scheduleVisiblePointsUpdate(zoom, panX, panY, 1, (data) => {
+      if (!data.refining) {
+        resolve(data);
+      }
+    });
+  });
+}
+
+/** Ids of the points currently rendered, sorted */
+function visibleIds(layer: DataLayer): number[] {
+  const points = layer['visiblePoints'];
+  return Array.from({ length: points.count }, (_, i) => Number(points.id(i))).sort((a, b) => a - b);
+}
+
+/** Ids of the rows inside [min, max]², sorted */
+function idsInside(table: Table, min: number, max: number): number[] {
+  const ids: number[] = [];
+  for (const row of table) {
+    if (row.x >= min && row.x <= max && row.y >= min && row.y <= max) {
+      ids.push(row.id);
+    }
+  }
+  return ids;
+}
+
+afterEach(async () => {
+  await Promise.all(layers.splice(0).map((layer) => layer.destroy()));
+});
+
+describe('DataLayer over ArrowTableRepository', () => {
+  it('loads the points of the initial view', async () => {
+    const table = pointTable(3000);
+    const { layer, initial } = await createLayer(table);
+
+    expect(initial.rowCount).toBe(3000);
+    expect(initial.totalCount).toBe(3000);
+    expect(initial.instanceData.length).toBe(3000 * 7);
+    expect(visibleIds(layer)).toEqual(idsInside(table, -1, 1));
+  });
+
+  it('queries the points of a zoomed and panned view', async () => {
+    const table = pointTable(3000);
+    const { layer } = await createLayer(table, { cache: false });
+
+    // Zoom 2 panned by 0.5 in clip space queries x in [-1, 0.5], y in [-0.75, 0.75]
+    const data = await update(layer, 2, 0.5, 0);
+    const expected = table
+      .toArray()
+      .filter((row) => row.x >= -1 && row.x <= 0.5 && row.y >= -0.75 && row.y <= 0.75)
+      .map((row) => row.id);
+    expect(data.rowCount).toBe(expected.length);
+    expect(visibleIds(layer)).toEqual(expected);
+  });
+
+  it('counts every matching point when the limit truncates the result', async () => {
+    const table = pointTable(3000);
+    const { layer, initial } = await createLayer(table, { visiblePointLimit: 500 });
+    expect(initial.rowCount).toBe(500);
+    expect(initial.totalCount).toBe(3000);
+
+    layer.updateOptions({
+      whereConditions: [{ type: 'in', column: 'category', values: ['a'] }],
+    });
+    const filtered = await update(layer, 1);
+    expect(filtered.rowCount).toBe(500);
+    expect(filtered.totalCount).toBe(1000);
+
+    layer.updateOptions({
+      whereConditions: [{ type: 'numeric', column: 'id', operator: '<', value: 100 }],
+    });
+    const small = await update(layer, 1);
+    expect(small.rowCount).toBe(100);
+    expect(small.totalCount).toBe(100);
+  });
+
+  it('finds the hovered point and returns its row', async () => {
+    const table = pointTable(3000);
+    const { layer } = await createLayer(table);
+    const target = table.get(1234)!;
+
+    // Screen position of the point on a 100x100 canvas at zoom 1
+    const screenX = ((target.x + 1) / 2) * 100;
+    const screenY = ((1 - target.y) / 2) * 100;
+    const hit = await layer.findNearestPoint(screenX, screenY, 100, 100, 1, 0, 0, 1);
+    expect(hit).not.toBeNull();
+    const value = (column: string) => hit!.row[hit!.columns.indexOf(column)];
+    expect(value('id')).toBe(1234);
+    expect(value('category')).toBe(target.category);
+
+    // Far outside the data
+    expect(await layer.findNearestPoint(-1000, -1000, 100, 100, 1, 0, 0, 1)).toBeNull();
+  });
+
+  it('leaves out points with NULL coordinates', async () => {
+    const table = new Table({
+      id: vectorFromArray([0, 1, 2, 3], new Int32()),
+      x: vectorFromArray([0.5, null, 0.2, -0.3], new Float64()),
+      y: vectorFromArray([0.5, 0.1, null, -0.3], new Float64()),
+    });
+    const { layer, initial } = await createLayer(table);
+
+    expect(initial.rowCount).toBe(2);
+    expect(initial.instanceData.every(Number.isFinite)).toBe(true);
+    expect(visibleIds(layer)).toEqual([0, 3]);
+  });
+
+  it('does not hover a point whose row is gone', async () => {
+    const table = pointTable(3000);
+    const repository = new ArrowTableRepository(table);
+    const query = repository.query.bind(repository);
+    repository.query = async (q) => {
+      const data = await query(q);
+      return q.request?.kind === 'point' ? { ...data, rowCount: 0 } : data;
+    };
+    const { layer } = await createLayer(table, { repository });
+    const target = table.get(1234)!;
+
+    const hit = await layer.findNearestPoint(
+      ((target.x + 1) / 2) * 100,
+      ((1 - target.y) / 2) * 100,
+      100,
+      100,
+      1,
+      0,
+      0,
+      1
+    );
+    expect(hit).toBeNull();
+  });
+
+  it('does not hover points hidden by a filter', async () => {
+    const table = pointTable(3000);
+    const { layer } = await createLayer(table);
+    const target = table.get(1234)!;
+    layer.updateOptions({
+      whereConditions: [{ type: 'numeric', column: 'id', operator: '!=', value: 1234 }],
+    });
+    await update(layer, 1);
+
+    const hit = await layer.findNearestPoint(
+      ((target.x + 1) / 2) * 100,
+      ((1 - target.y) / 2) * 100,
+      100,
+      100,
+      1,
+      0,
+      0,
+      1
+    );
+    expect(hit?.row[hit.columns.indexOf('id')]).not.toBe(1234);
+  });
+});
+
+describe('expression validation', () => {
+  it('rejects only the invalid expressions', async () => {
+    const { layer } = await createLayer(pointTable(10));
+    const errors = await layer.validateExpressions({
+      sizeSql: 'x',
+      colorSql: 'missing',
+      size: { field: 'category', range: [1, 10] },
+      color: { type: 'categorical', field: 'category' },
+    });
+    expect(errors.map((error) => [error.code, error.context?.option])).toEqual([
+      ['INVALID_EXPRESSION', 'colorSql'],
+      ['INVALID_EXPRESSION', 'size'],
+    ]);
+  });
+});
+
+describe('viewport cache', () => {
+  it('answers a zoom-in from a complete cached result like an uncached query', async () => {
+    const table = pointTable(3000);
+    const { layer: cached, initial } = await createLayer(table, { visiblePointLimit: 5000 });
+    const { layer: uncached } = await createLayer(table, {
+      visiblePointLimit: 5000,
+      cache: false,
+    });
+    expect(initial.rowCount).toBe(3000);
+
+    // Zoom 4 with the default margin of 0.5 queries [-0.375, 0.375]²
+    const expected = idsInside(table, -0.375, 0.375);
+    const fromCache = await update(cached, 4);
+    const fromQuery = await update(uncached, 4);
+
+    expect(cached.getViewportCacheStats().hits).toBe(1);
+    expect(fromCache.rowCount).toBe(expected.length);
+    expect(fromCache.totalCount).toBe(expected.length);
+    expect(fromCache.rowCount).toBe(fromQuery.rowCount);
+    expect(fromCache.totalCount).toBe(fromQuery.totalCount);
+    expect(fromCache.instanceData.length).toBe(fromQuery.instanceData.length);
+    expect(visibleIds(cached)).toEqual(expected);
+    expect(visibleIds(uncached)).toEqual(expected);
+  });
+
+  it('crops a cached hit to the requested bounds', async () => {
+    const table = pointTable(3000);
+    const { layer } = await createLayer(table, { visiblePointLimit: 5000 });
+
+    // Zoom 2 queries [-0.75, 0.75]², then zoom 4 [-0.375, 0.375]²: both are in
+    // the initial [-1.5, 1.5]² result
+    for (const [zoom, half] of [
+      [2, 0.75],
+      [4, 0.375],
+    ]) {
+      const data = await update(layer, zoom);
+      expect(data.rowCount).toBe(idsInside(table, -half, half).length);
+      expect(data.totalCount).toBe(data.rowCount);
+      expect(visibleIds(layer)).toEqual(idsInside(table, -half, half));
+    }
+    // The initial query is the only miss
+    expect(layer.getViewportCacheStats().hits).toBe(2);
+    expect(layer.getViewportCacheStats().misses).toBe(1);
+  });
+
+  it('merges the strips exposed by a pan', async () => {
+    const table = pointTable(3000);
+    const { layer } = await createLayer(table, { cache: { incremental: true } });
+    const { layer: uncached } = await createLayer(table, { cache: false });
+
+    // Panning from the initial [-1.5, 1.5]² to the right queries [-0.5, 2.5] x [-1.5, 1.5]
+    const panned = await update(layer, 1, -1, 0);
+    const expected = await update(uncached, 1, -1, 0);
+    expect(layer.getViewportCacheStats().incremental).toBe(1);
+    expect(panned.rowCount).toBe(expected.rowCount);
+    expect(visibleIds(layer)).toEqual(visibleIds(uncached));
+  });
+
+  it('queries the whole view when a strip reaches the limit', async () => {
+    // 30 points at x = 0.5, in the strip exposed by the pan below, and none elsewhere
+    const count = 30;
+    const table = new Table({
+      id: vectorFromArray(
+        Array.from({ length: count }, (_, i) => i),
+        new Int32()
+      ),
+      x: vectorFromArray(new Array(count).fill(0.5), new Float64()),
+      y: vectorFromArray(
+        Array.from({ length: count }, (_, i) => (i / count) * 0.6 - 0.3),
+        new Float64()
+      ),
+    });
+    const { layer } = await createLayer(table, {
+      visiblePointLimit: 20,
+      cache: { incremental: true },
+    });
+    // The initial result is truncated; zoom 4 queries [-0.375, 0.375]², which is empty
+    const empty = await update(layer, 4);
+    expect(empty.totalCount).toBe(0);
+
+    // Panning to the right at zoom 4 queries [-0.125, 0.625] x [-0.375, 0.375]
+    const panned = await update(layer, 4, -1, 0);
+    expect(layer.getViewportCacheStats().incremental).toBe(0);
+    expect(panned.rowCount).toBe(20);
+    expect(panned.totalCount).toBe(count);
+  });
+
+  it('serves a truncated result only for its own bounds', async () => {
+    const table = pointTable(3000);
+    const { layer } = await createLayer(table, { visiblePointLimit: 1000 });
+
+    const zoomedIn = await update(layer, 4);
+    expect(layer.getViewportCacheStats().hits).toBe(0);
+    expect(zoomedIn.rowCount).toBe(idsInside(table, -0.375, 0.375).length);
+  });
+});
+
+describe('progressive queries', () => {
+  it('orders the steps by id so that they continue each other', async () => {
+    const table = pointTable(3000);
+    const repository = new ArrowTableRepository(table);
+    const sql: string[] = [];
+    const query = repository.query.bind(repository);
+    repository.query = (q) => {
+      if (q.request?.kind === 'viewport') {
+        sql.push(q.toString());
+      }
+      return query(q);
+    };
+    const { layer } = await createLayer(table, {
+      repository,
+      visiblePointLimit: 400,
+      progressive: { coarseFraction: 0.1, chunkSize: 100 },
+    });
+    const { layer: plain } = await createLayer(table, { visiblePointLimit: 400 });
+    // The initial data is queried in one go
+    sql.length = 0;
+
+    const steps: ProcessedData[] = [];
+    const last = await new Promise<ProcessedData>((resolve) => {
+      layer.scheduleVisiblePointsUpdate(2, 0.1, 0, 1, (data) => {
+        steps.push(data);
+        if (!data.refining) {
+          resolve(data);
+        }
+      });
+    });
+    await update(plain, 2, 0.1, 0);
+
+    expect(steps.map((step) => step.appendOffset)).toEqual([undefined, 40, 140, 240, 340]);
+    expect(last.rowCount).toBe(400);
+    expect(sql.length).toBe(steps.length);
+    for (const text of sql) {
+      expect(text).toMatch(/ ORDER BY "id" LIMIT \d+( OFFSET \d+)?$/);
+    }
+    expect(new Set(visibleIds(layer)).size).toBe(400);
+    expect(visibleIds(layer)).toEqual(visibleIds(plain));
+  });
+});
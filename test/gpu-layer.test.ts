@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GpuLayer } from '../src/layers/gpu-layer.js';
+import type { ProcessedData } from '../src/layers/data-layer.js';
+import { INSTANCE_STRIDE } from '../src/point-packer.js';
+
+const CAPACITY = 10;
+
+/** Instance data of the points `from` to `to`, each sized by its index plus one */
+function points(from: number, to: number): Float32Array {
+  const data = new Float32Array((to - from) * INSTANCE_STRIDE);
+  for (let i = from; i < to; i++) {
+    data.set([i, -i, 1, 1, 1, 1, i + 1], (i - from) * INSTANCE_STRIDE);
+  }
+  return data;
+}
+
+function chunk(appendOffset: number, rowCount: number): ProcessedData {
+  return {
+    instanceData: points(appendOffset, rowCount),
+    rowCount,
+    totalCount: rowCount,
+    visiblePointLimit: CAPACITY,
+    appendOffset,
+    refining: true,
+  };
+}
+
+/** Sizes of the first `count` points as the layer would draw them */
+function sizes(layer: GpuLayer, count: number): number[] {
+  const data: Float32Array = layer['currentInstanceData']!;
+  return Array.from({ length: count }, (_, i) => data[i * INSTANCE_STRIDE + 6]);
+}
+
+describe('GpuLayer.appendInstanceData', () => {
+  let layer: GpuLayer;
+  let writeBuffer: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.stubGlobal('GPUBufferUsage', { VERTEX: 0x20, COPY_DST: 0x08 });
+    writeBuffer = vi.fn();
+    layer = new GpuLayer({ canvas: {} as HTMLCanvasElement });
+    layer['context'].device = {
+      createBuffer: (descriptor: GPUBufferDescriptor) => ({ ...descriptor, destroy: () => {} }),
+      queue: { writeBuffer },
+    } as unknown as GPUDevice;
+    layer.updateInstanceBuffer({ ...chunk(0, 2), appendOffset: undefined, refining: false });
+    writeBuffer.mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('writes only the new points, at their offset in the GPU buffer', () => {
+    layer.appendInstanceData(chunk(2, 5));
+
+    expect(writeBuffer).toHaveBeenCalledOnce();
+    const [buffer, bufferOffset, data, dataOffset, size] = writeBuffer.mock.calls[0];
+    expect(buffer).toBe(layer['instanceBuffer']);
+    expect(bufferOffset).toBe(2 * INSTANCE_STRIDE * 4);
+    expect(dataOffset).toBe(2 * INSTANCE_STRIDE);
+    expect(size).toBe(3 * INSTANCE_STRIDE);
+    expect(data.subarray(dataOffset, dataOffset + size)).toEqual(points(2, 5));
+    expect(layer['rowCount']).toBe(5);
+  });
+
+  it('grows the instance data geometrically up to the buffer capacity', () => {
+    const lengths: number[] = [];
+    for (const [appendOffset, rowCount] of [
+      [2, 3],
+      [3, 4],
+      [4, 6],
+      [6, 10],
+    ]) {
+      layer.appendInstanceData(chunk(appendOffset, rowCount));
+      lengths.push(layer['baseInstanceData']!.length / INSTANCE_STRIDE);
+    }
+
+    // Doubling from 2 points, then capped at the capacity of 10
+    expect(lengths).toEqual([4, 4, 8, 10]);
+    expect(layer['baseInstanceData']).toEqual(points(0, 10));
+    expect(sizes(layer, 10)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('ignores chunks that do not fit in the buffer', () => {
+    layer.appendInstanceData(chunk(2, CAPACITY + 1));
+
+    expect(writeBuffer).not.toHaveBeenCalled();
+    expect(layer['rowCount']).toBe(2);
+  });
+
+  it('scales a hovered point once, in whichever chunk it arrives', () => {
+    layer.setHoveredPoint(1, 2);
+    layer.appendInstanceData(chunk(2, 4));
+    expect(sizes(layer, 4)).toEqual([1, 4, 3, 4]);
+
+    layer.setHoveredPoint(5, 2);
+    layer.appendInstanceData(chunk(4, 7));
+    expect(sizes(layer, 7)).toEqual([1, 2, 3, 4, 5, 12, 7]);
+    // The unscaled copy is left alone
+    expect(layer['baseInstanceData']!.subarray(0, 7 * INSTANCE_STRIDE)).toEqual(points(0, 7));
+  });
+});
@@ -0,0 +1,175 @@
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createRequire } from 'node:module';
+import { Worker as ThreadWorker } from 'node:worker_threads';
+import * as duckdb from '@duckdb/duckdb-wasm';
+
+const require = createRequire(import.meta.url);
+const DIST = require.resolve('@duckdb/duckdb-wasm/dist/duckdb-eh.wasm').replace(/[^/]+$/, '');
+
+/**
+ * Synchronous XMLHttpRequest for a Node worker, which runs each request in a
+ * child process. DuckDB-WASM reads registered HTTP files with synchronous XHRs.
+ */
+const SYNC_XHR = `
+const { execFileSync } = require('node:child_process');
+const REQUEST = \`
+  const { method, url, headers } = JSON.parse(process.argv[1]);
+  const client = require(url.startsWith('https:') ? 'node:https' : 'node:http');
+  const done = (status, headers, body) =>
+    process.stdout.write(JSON.stringify({ status, headers, body: body.toString('base64') }));
+  client
+    .request(url, { method, headers }, (res) => {
+      const chunks = [];
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('end', () => done(res.statusCode, res.headers, Buffer.concat(chunks)));
+    })
+    .on('error', () => done(0, {}, Buffer.alloc(0)))
+    .end();
+\`;
+globalThis.XMLHttpRequest = class {
+  status = 0;
+  response = null;
+  responseType = '';
+  requestHeaders = {};
+  responseHeaders = {};
+  open(method, url, async) {
+    if (async !== false) throw new Error('Only synchronous requests are supported');
+    this.method = method;
+    this.url = url;
+  }
+  setRequestHeader(name, value) {
+    this.requestHeaders[name] = value;
+  }
+  overrideMimeType() {}
+  send() {
+    const request = JSON.stringify({ method: this.method, url: this.url, headers: this.requestHeaders });
+    const { status, headers, body } = JSON.parse(
+      execFileSync(process.execPath, ['-e', REQUEST, request], { maxBuffer: 1 << 30 }).toString()
+    );
+    const bytes = Buffer.from(body, 'base64');
+    this.status = status;
+    this.responseHeaders = headers;
+    this.response = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+  }
+  getResponseHeader(name) {
+    const value = this.responseHeaders[name.toLowerCase()];
+    return value === undefined ? null : String(value);
+  }
+  getAllResponseHeaders() {
+    return Object.entries(this.responseHeaders).map(([k, v]) => k + ': ' + v).join('\\r\\n');
+  }
+};
+`;
+
+/**
+ * Worker bootstrap: the browser worker script, run with Web Worker globals.
+ * `process` is hidden from it so that it does not take the Node code paths.
+ */
+const WORKER = `
+const { parentPort } = require('node:worker_threads');
+globalThis.self = globalThis;
+globalThis.require = require;
+globalThis.postMessage = (message, transfer) => parentPort.postMessage(message, transfer);
+${SYNC_XHR}
+const source = require('node:fs').readFileSync(${JSON.stringify(`${DIST}duckdb-browser-eh.worker.js`)}, 'utf8');
+require('node:vm').runInThisContext('(function (process) {' + source + '\\n})(undefined)');
+parentPort.on('message', (data) => globalThis.onmessage({ data }));
+`;
+
+/**
+ * DuckDB-WASM running the browser worker in a Node worker thread, so that files
+ * registered with the HTTP protocol are read like in a browser
+ * @param baseUrl Server that serves the wasm module at `/duckdb/duckdb-eh.wasm`
+ */
+export async function openBrowserDuckDB(baseUrl: string): Promise<duckdb.AsyncDuckDB> {
+  const thread = new ThreadWorker(WORKER, { eval: true });
+  const worker = {
+    postMessage: (message: unknown, transfer: Transferable[]) =>
+      thread.postMessage(message, transfer as never),
+    terminate: () => thread.terminate(),
+    addEventListener: (type: string, listener: (event: unknown) => void) =>
+      thread.on(type, type === 'message' ? (data) => listener({ data }) : listener),
+    removeEventListener: () => {},
+  };
+  const db = new duckdb.AsyncDuckDB(new duckdb.VoidLogger(), worker as unknown as Worker);
+  await db.instantiate(`${baseUrl}/duckdb/duckdb-eh.wasm`);
+  await db.open({ filesystem: { forceFullHTTPReads: false } });
+  return db;
+}
+
+/** A request received by the static file server */
+export interface FileRequest {
+  method: string;
+  path: string;
+  range: string | undefined;
+  bytes: number;
+}
+
+export interface StaticServer {
+  url: string;
+  /** Requests for the served files (not the wasm module), in order */
+  requests: FileRequest[];
+  /** Serve the bytes at the path, replacing what was served there */
+  setFile: (path: string, bytes: Uint8Array) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Static file server with Range request support, which also serves the
+ * DuckDB-WASM module for openBrowserDuckDB()
+ */
+export async function startStaticServer(): Promise<StaticServer> {
+  const files = new Map<string, Uint8Array>();
+  const requests: FileRequest[] = [];
+
+  const server = createServer((req, res) => {
+    const path = req.url ?? '/';
+    let data: Uint8Array | undefined;
+    if (path.startsWith('/duckdb/')) {
+      data = readFileSync(`${DIST}${path.slice('/duckdb/'.length)}`);
+      res.setHeader('Content-Type', 'application/wasm');
+    } else {
+      data = files.get(path);
+    }
+    if (!data) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range ?? '');
+    let body = data;
+    if (range) {
+      const start = Number(range[1]);
+      const end = range[2] ? Math.min(Number(range[2]), data.length - 1) : data.length - 1;
+      body = data.subarray(start, end + 1);
+      res.statusCode = 206;
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${data.length}`);
+    }
+    res.setHeader('Content-Length', body.length);
+    if (!path.startsWith('/duckdb/')) {
+      requests.push({
+        method: req.method ?? 'GET',
+        path,
+        range: req.headers.range,
+        bytes: req.method === 'HEAD' ? 0 : body.length,
+      });
+    }
+    res.end(req.method === 'HEAD' ? undefined : body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    setFile: (path, bytes) => files.set(path, bytes),
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,29 @@
+import { tableFromArrays } from 'apache-arrow';
+import type { Table } from 'apache-arrow';
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Table of `count` points with ids 0..count-1 spread uniformly over [-1, 1]²,
+ * and a category column cycling through 'a', 'b' and 'c'
+ */
+export function pointTable(count: number, seed: number = 1): Table {
+  const next = random(seed);
+  const id = Int32Array.from({ length: count }, (_, i) => i);
+  const x = Float64Array.from({ length: count }, () => next() * 2 - 1);
+  const y = Float64Array.from({ length: count }, () => next() * 2 - 1);
+  const category = Array.from({ length: count }, (_, i) => 'abc'[i % 3]);
+  return tableFromArrays({ id, x, y, category });
+}
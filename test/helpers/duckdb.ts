@@ -0,0 +1,38 @@
+import { createRequire } from 'node:module';
+import type * as duckdb from '@duckdb/duckdb-wasm/dist/duckdb-node-blocking';
+
+const require = createRequire(import.meta.url);
+const DIST = require.resolve('@duckdb/duckdb-wasm/dist/duckdb-eh.wasm').replace(/[^/]+$/, '');
+
+/**
+ * Open an in-memory DuckDB-WASM database with the synchronous Node bindings
+ */
+export async function openBlockingDuckDB(): Promise<duckdb.DuckDBConnection> {
+  const blocking: typeof duckdb = require('@duckdb/duckdb-wasm/dist/duckdb-node-blocking');
+  const db = await blocking.createDuckDB(
+    {
+      mvp: {
+        mainModule: `${DIST}duckdb-mvp.wasm`,
+        mainWorker: `${DIST}duckdb-node-mvp.worker.cjs`,
+      },
+      eh: {
+        mainModule: `${DIST}duckdb-eh.wasm`,
+        mainWorker: `${DIST}duckdb-node-eh.worker.cjs`,
+      },
+    },
+    new blocking.VoidLogger(),
+    blocking.NODE_RUNTIME
+  );
+  await db.instantiate();
+  return db.connect();
+}
+
+/**
+ * Run a query and return its rows as plain objects
+ */
+export function queryRows(conn: duckdb.DuckDBConnection, sql: string): Record<string, unknown>[] {
+  return conn
+    .query(sql)
+    .toArray()
+    .map((row) => row.toJSON() as Record<string, unknown>);
+}
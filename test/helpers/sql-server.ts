@@ -0,0 +1,61 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tableToIPC } from 'apache-arrow';
+import type { DuckDBConnection } from '@duckdb/duckdb-wasm/dist/duckdb-node-blocking';
+
+export interface SqlServer {
+  url: string;
+  /** SQL of each request received, in order */
+  requests: string[];
+  /** Number of requests the client dropped before the response was sent */
+  aborted: () => number;
+  close: () => Promise<void>;
+}
+
+/**
+ * HTTP endpoint speaking RemoteSqlRepository's protocol: runs the POSTed SQL
+ * on the connection and responds with an Arrow IPC stream
+ * @param delay Milliseconds to wait before answering a query
+ */
+export async function startSqlServer(
+  conn: DuckDBConnection,
+  delay: (sql: string) => number = () => 0
+): Promise<SqlServer> {
+  const requests: string[] = [];
+  let aborted = 0;
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { sql, params } = JSON.parse(body) as { sql: string; params?: unknown[] };
+      requests.push(sql);
+      res.on('close', () => {
+        if (!res.writableFinished) aborted++;
+      });
+      setTimeout(() => {
+        if (res.destroyed) return;
+        try {
+          const table = params ? conn.prepare(sql).query(...params) : conn.query(sql);
+          res.setHeader('Content-Type', 'application/vnd.apache.arrow.stream');
+          res.end(tableToIPC(table, 'stream'));
+        } catch (e) {
+          res.statusCode = 400;
+          res.end(e instanceof Error ? e.message : String(e));
+        }
+      }, delay(sql));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/query`,
+    requests,
+    aborted: () => aborted,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
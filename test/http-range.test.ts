@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AsyncDuckDB, AsyncDuckDBConnection } from '@duckdb/duckdb-wasm';
+import { DataLayer } from '../src/layers/data-layer.js';
+import type { ProcessedData } from '../src/layers/data-layer.js';
+import { openBrowserDuckDB, startStaticServer } from './helpers/browser-duckdb.js';
+
+// DuckDB-WASM loads its Parquet extension from extensions.duckdb.org, so these
+// tests need network access and are skipped without it
+const server = await startStaticServer();
+const db = await openBrowserDuckDB(server.url);
+const conn = await db.connect();
+const parquetAvailable = await conn.query('LOAD parquet').then(
+  () => true,
+  () => false
+);
+
+afterAll(async () => {
+  await conn.close();
+  await db.terminate();
+  await server.close();
+});
+
+const POINTS = 20000;
+
+/**
+ * Write a Parquet file of `count` points spread over [-1, 1]², sorted by x and
+ * split into row groups of 1000 rows, so that x statistics select row groups
+ */
+async function writePoints(
+  database: AsyncDuckDB,
+  connection: AsyncDuckDBConnection,
+  count: number
+) {
+  await database.registerEmptyFileBuffer('points.parquet');
+  await connection.query(
+    `COPY (SELECT range::INTEGER AS id, (hash(range) % 2000000) / 1e6 - 1 AS x, ` +
+      `(hash(range + ${count}) % 2000000) / 1e6 - 1 AS y, 'p' || range AS label ` +
+      `FROM range(${count}) ORDER BY x) TO 'points.parquet' (FORMAT parquet, ROW_GROUP_SIZE 1000)`
+  );
+  const bytes = await database.copyFileToBuffer('points.parquet');
+  await database.dropFile('points.parquet');
+  return bytes;
+}
+
+function update(layer: DataLayer, zoom: number): Promise<ProcessedData> {
+  return new Promise((resolve) => layer.scheduleVisiblePointsUpdate(zoom, 0, 0, 1, resolve));
+}
+
+describe.skipIf(!parquetAvailable)('HTTP range reads', () => {
+  let fileSize = 0;
+  let layer: DataLayer;
+
+  /** Bytes of points.parquet received since the requests were last cleared */
+  const bytesRead = () =>
+    server.requests
+      .filter((request) => request.path === '/points.parquet')
+      .reduce((sum, request) => sum + request.bytes, 0);
+
+  beforeAll(async () => {
+    const bytes = await writePoints(db, conn, POINTS);
+    fileSize = bytes.length;
+    server.setFile('/points.parquet', bytes);
+    server.setFile('/other.parquet', await writePoints(db, conn, 10));
+
+    layer = new DataLayer({
+      idColumn: 'id',
+      duckdb: { instance: db },
+      autoFit: false,
+      useWorker: false,
+      visiblePointLimit: POINTS,
+      cache: false,
+      scheduling: { schedule: (task) => task(), cancel: () => {} },
+    });
+  });
+
+  afterAll(async () => {
+    await layer.destroy();
+  });
+
+  it('queries the file in place with range requests', async () => {
+    const initial = await layer.initialize(`${server.url}/points.parquet`, 1, { httpRange: true });
+    expect(initial.rowCount).toBe(POINTS);
+    expect(
+      server.requests.some((request) => request.range === undefined && request.method === 'GET')
+    ).toBe(false);
+
+    // Zoom 8 queries [-0.1875, 0.1875]²: a fifth of the row groups by x
+    server.requests.length = 0;
+    const zoomed = await update(layer, 8);
+    const expected = await conn.query(
+      `SELECT count(*)::INTEGER AS n FROM read_parquet('${server.url}/points.parquet') ` +
+        `WHERE x BETWEEN -0.1875 AND 0.1875 AND y BETWEEN -0.1875 AND 0.1875`
+    );
+    expect(zoomed.rowCount).toBe(expected.getChild('n')?.get(0));
+    expect(bytesRead()).toBeLessThan(fileSize / 2);
+  });
+
+  it('looks up hovered points without scanning the whole file', async () => {
+    const points = layer['visiblePoints'];
+    const x = points.instanceData[0];
+    const y = points.instanceData[1];
+
+    server.requests.length = 0;
+    const hit = await layer.findNearestPoint(
+      ((x * 8 + 1) / 2) * 100,
+      ((1 - y * 8) / 2) * 100,
+      100,
+      100,
+      8,
+      0,
+      0,
+      1
+    );
+    expect(hit?.row[hit.columns.indexOf('id')]).toBe(points.id(0));
+    expect(bytesRead()).toBeLessThan(fileSize / 4);
+  });
+
+  it('replaces the view when the instance is reused with another URL', async () => {
+    const other = new DataLayer({
+      idColumn: 'id',
+      duckdb: { instance: db },
+      autoFit: false,
+      useWorker: false,
+    });
+    try {
+      const initial = await other.initialize(`${server.url}/other.parquet`, 1, {
+        httpRange: true,
+      });
+      expect(initial.totalCount).toBe(10);
+    } finally {
+      await other.destroy();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ArrowTableRepository } from '../src/arrow-repository.js';
+import { DataLayer } from '../src/layers/data-layer.js';
+import { LabelLayer } from '../src/layers/label-layer.js';
+import { pointTable } from './helpers/data.js';
+
+const layers: DataLayer[] = [];
+
+afterEach(async () => {
+  await Promise.all(layers.splice(0).map((layer) => layer.destroy()));
+});
+
+/** Data layer over 3000 points colored by their category 'a', 'b' or 'c' */
+async function createLayer(): Promise<DataLayer> {
+  const layer = new DataLayer({
+    idColumn: 'id',
+    repository: new ArrowTableRepository(pointTable(3000)),
+    autoFit: false,
+    useWorker: false,
+    color: { type: 'categorical', field: 'category' },
+    scheduling: { schedule: (task) => task(), cancel: () => {} },
+  });
+  layers.push(layer);
+  await layer.initialize(undefined);
+  return layer;
+}
+
+/**
+ * Label layer drawing on a 400x300 canvas whose 2D context only measures text,
+ * 6 pixels per character
+ */
+function createLabelLayer(dataLayer: DataLayer): LabelLayer {
+  const canvas = { width: 400, height: 300 } as HTMLCanvasElement;
+  const context = new Proxy(
+    { measureText: (text: string) => ({ width: text.length * 6 }) },
+    { get: (target, name) => (name in target ? target[name as 'measureText'] : () => {}) }
+  ) as unknown as CanvasRenderingContext2D;
+  const layer = new LabelLayer({ canvas, dataLayer, legendOptions: { enabled: true } });
+  layer['labelCanvas'] = canvas;
+  layer['labelContext'] = context;
+  return layer;
+}
+
+describe('legend', () => {
+  it('lists the categories with their counts', async () => {
+    const layer = await createLayer();
+    const legend = layer.getLegend();
+    expect(legend.color?.type).toBe('categorical');
+    if (legend.color?.type !== 'categorical') return;
+    expect(legend.color.categories.map((c) => [c.value, c.count, c.hidden])).toEqual([
+      ['a', 1000, false],
+      ['b', 1000, false],
+      ['c', 1000, false],
+    ]);
+  });
+
+  it('finds the category row under the pointer', async () => {
+    const labelLayer = createLabelLayer(await createLayer());
+    labelLayer['renderLegend']();
+    const at = (x: number, y: number) => labelLayer['getLegendCategoryAtPosition'](x, y)?.value;
+
+    // Top-right box: 8 px padding, then the title and one 19 px row per category
+    const rows = labelLayer['renderedLegendRows'];
+    expect(rows.map((row) => row.category.value)).toEqual(['a', 'b', 'c']);
+    expect(rows[0].y).toBe(10 + 8 + 19);
+    const x = 400 - 10 - 5;
+    expect(at(x, rows[0].y + 9)).toBe('a');
+    expect(at(x, rows[1].y + 9)).toBe('b');
+    expect(at(x, rows[2].y + 9)).toBe('c');
+    // The title, the "Other" row and left of the box are not categories
+    expect(at(x, 10 + 8 + 9)).toBeUndefined();
+    expect(at(x, rows[2].y + 19 + 9)).toBeUndefined();
+    expect(at(rows[0].x - 1, rows[0].y + 9)).toBeUndefined();
+  });
+
+  it('hides the points of a toggled category', async () => {
+    const layer = await createLayer();
+    expect(layer.toggleCategory('b')).toBe(true);
+    const legend = layer.getLegend();
+    if (legend.color?.type !== 'categorical') throw new Error('categorical legend expected');
+    expect(legend.color.categories.map((c) => c.hidden)).toEqual([false, true, false]);
+
+    const data = await new Promise<{ totalCount: number }>((resolve) =>
+      layer.scheduleVisiblePointsUpdate(1, 0, 0, 1, resolve)
+    );
+    expect(data.totalCount).toBe(2000);
+
+    expect(layer.toggleCategory('b')).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { INSTANCE_STRIDE, PointPacker, packInstances } from '../src/point-packer.js';
+import type { PointColumns } from '../src/point-packer.js';
+
+const COLUMNS: PointColumns = {
+  x: [1, 3],
+  y: [2, 4],
+  size: [5, 6],
+  // Opaque red and half-transparent blue
+  color: [0xffff0000 | 0, 0x800000ff],
+};
+const TRANSFORM = { offsetX: 2, offsetY: 3, scale: 0.5 };
+
+/** Stand-in for the browser Worker, recording how it was started */
+class FakeWorker {
+  static created: FakeWorker[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  messages: { id: number; columns: PointColumns; transform: typeof TRANSFORM }[] = [];
+  terminated = false;
+
+  constructor(
+    readonly url: URL,
+    readonly options: WorkerOptions
+  ) {
+    FakeWorker.created.push(this);
+  }
+
+  postMessage(message: FakeWorker['messages'][number]) {
+    this.messages.push(message);
+  }
+
+  /** Answer a message like the packer worker does */
+  answer(index: number) {
+    const { id, columns, transform } = this.messages[index];
+    this.onmessage?.({ data: { id, instanceData: packInstances(columns, transform) } });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  FakeWorker.created = [];
+});
+
+describe('packInstances', () => {
+  it('packs positions in world space, colors and sizes', () => {
+    const data = packInstances(COLUMNS, TRANSFORM);
+    expect(data.length).toBe(2 * INSTANCE_STRIDE);
+    expect(Array.from(data.subarray(0, INSTANCE_STRIDE))).toEqual([-0.5, -0.5, 1, 0, 0, 1, 5]);
+    expect(data[INSTANCE_STRIDE + 4]).toBe(1);
+    expect(data[INSTANCE_STRIDE + 5]).toBeCloseTo(128 / 255);
+  });
+});
+
+describe('PointPacker', () => {
+  it('packs on the calling thread without workers', async () => {
+    const packer = new PointPacker(false);
+    expect(await packer.pack(COLUMNS, TRANSFORM)).toEqual(packInstances(COLUMNS, TRANSFORM));
+    packer.destroy();
+  });
+
+  it('starts the worker module and matches its answers to the requests', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const packer = new PointPacker();
+    const [worker] = FakeWorker.created;
+    expect(worker.url.href).toMatch(/\/point-packer\.worker\.js$/);
+    expect(worker.options.type).toBe('module');
+
+    const first = packer.pack(COLUMNS, TRANSFORM);
+    const second = packer.pack(COLUMNS, { ...TRANSFORM, scale: 1 });
+    // Answered out of order
+    worker.answer(1);
+    worker.answer(0);
+    expect(await first).toEqual(packInstances(COLUMNS, TRANSFORM));
+    expect(await second).toEqual(packInstances(COLUMNS, { ...TRANSFORM, scale: 1 }));
+    packer.destroy();
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('packs pending and later requests itself when the worker fails', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const packer = new PointPacker();
+    const [worker] = FakeWorker.created;
+
+    const pending = packer.pack(COLUMNS, TRANSFORM);
+    worker.onerror?.();
+    expect(await pending).toEqual(packInstances(COLUMNS, TRANSFORM));
+    expect(worker.terminated).toBe(true);
+
+    expect(await packer.pack(COLUMNS, TRANSFORM)).toEqual(packInstances(COLUMNS, TRANSFORM));
+    expect(worker.messages).toHaveLength(1);
+  });
+
+  it('packs itself when the worker cannot be created', async () => {
+    vi.stubGlobal(
+      'Worker',
+      class {
+        constructor() {
+          throw new Error('blocked by Content-Security-Policy');
+        }
+      }
+    );
+    const packer = new PointPacker();
+    expect(await packer.pack(COLUMNS, TRANSFORM)).toEqual(packInstances(COLUMNS, TRANSFORM));
+  });
+
+  it('rejects pending requests when destroyed', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const packer = new PointPacker();
+    const pending = packer.pack(COLUMNS, TRANSFORM);
+    packer.destroy();
+    await expect(pending).rejects.toThrow('Point packer was destroyed');
+  });
+});
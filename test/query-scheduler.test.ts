@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createQueryScheduler } from '../src/query-scheduler.js';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // Start well past zero so that the first throttled run is not held back
+  vi.advanceTimersByTime(10_000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('throttle', () => {
+  it('runs at once, then the latest task once the interval has passed', () => {
+    const scheduler = createQueryScheduler({ mode: 'throttle', interval: 100 });
+    const runs: string[] = [];
+
+    scheduler.schedule(() => runs.push('first'));
+    expect(runs).toEqual(['first']);
+
+    scheduler.schedule(() => runs.push('second'));
+    vi.advanceTimersByTime(40);
+    scheduler.schedule(() => runs.push('third'));
+    vi.advanceTimersByTime(59);
+    expect(runs).toEqual(['first']);
+    vi.advanceTimersByTime(1);
+    expect(runs).toEqual(['first', 'third']);
+
+    vi.advanceTimersByTime(100);
+    scheduler.schedule(() => runs.push('fourth'));
+    expect(runs).toEqual(['first', 'third', 'fourth']);
+  });
+
+  it('drops the waiting task when cancelled', () => {
+    const scheduler = createQueryScheduler({ mode: 'throttle', interval: 100 });
+    const task = vi.fn();
+    scheduler.schedule(() => {});
+    scheduler.schedule(task);
+    scheduler.cancel();
+    vi.advanceTimersByTime(1000);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
+
+describe('debounce', () => {
+  it('runs the latest task once no task was scheduled for the delay', () => {
+    const scheduler = createQueryScheduler({ mode: 'debounce', delay: 100 });
+    const runs: string[] = [];
+
+    scheduler.schedule(() => runs.push('first'));
+    vi.advanceTimersByTime(80);
+    scheduler.schedule(() => runs.push('second'));
+    vi.advanceTimersByTime(80);
+    expect(runs).toEqual([]);
+    vi.advanceTimersByTime(20);
+    expect(runs).toEqual(['second']);
+  });
+
+  it('ignores pointer interactions', () => {
+    const scheduler = createQueryScheduler({ mode: 'debounce', delay: 100 });
+    const task = vi.fn();
+    scheduler.setInteracting?.(true);
+    scheduler.schedule(task);
+    vi.advanceTimersByTime(100);
+    expect(task).toHaveBeenCalledOnce();
+  });
+
+  it('drops the waiting task when cancelled', () => {
+    const scheduler = createQueryScheduler({ mode: 'debounce', delay: 100 });
+    const task = vi.fn();
+    scheduler.schedule(task);
+    scheduler.cancel();
+    vi.advanceTimersByTime(1000);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
+
+describe('interaction-end', () => {
+  it('holds the task until the interaction ends, then waits for the delay', () => {
+    const scheduler = createQueryScheduler({ mode: 'interaction-end', delay: 100 });
+    const task = vi.fn();
+
+    scheduler.setInteracting?.(true);
+    scheduler.schedule(task);
+    vi.advanceTimersByTime(1000);
+    expect(task).not.toHaveBeenCalled();
+
+    scheduler.setInteracting?.(false);
+    vi.advanceTimersByTime(99);
+    expect(task).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(task).toHaveBeenCalledOnce();
+  });
+
+  it('stops the delay when an interaction starts', () => {
+    const scheduler = createQueryScheduler({ mode: 'interaction-end', delay: 100 });
+    const task = vi.fn();
+
+    scheduler.schedule(task);
+    vi.advanceTimersByTime(50);
+    scheduler.setInteracting?.(true);
+    vi.advanceTimersByTime(1000);
+    expect(task).not.toHaveBeenCalled();
+
+    scheduler.setInteracting?.(false);
+    vi.advanceTimersByTime(100);
+    expect(task).toHaveBeenCalledOnce();
+  });
+
+  it('drops a held task when cancelled', () => {
+    const scheduler = createQueryScheduler({ mode: 'interaction-end', delay: 100 });
+    const task = vi.fn();
+    scheduler.setInteracting?.(true);
+    scheduler.schedule(task);
+    scheduler.cancel();
+    scheduler.setInteracting?.(false);
+    vi.advanceTimersByTime(1000);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
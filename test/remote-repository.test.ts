@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { DuckDBConnection } from '@duckdb/duckdb-wasm/dist/duckdb-node-blocking';
+import { DataLayer } from '../src/layers/data-layer.js';
+import { RemoteSqlRepository } from '../src/remote-repository.js';
+import type { RepositoryQuery, ViewportRequest } from '../src/repository.js';
+import { pointTable } from './helpers/data.js';
+import { openBlockingDuckDB } from './helpers/duckdb.js';
+import { startSqlServer } from './helpers/sql-server.js';
+import type { SqlServer } from './helpers/sql-server.js';
+
+const SLOW = '/* slow */';
+
+/** A viewport query as DataLayer issues it; only the kind of the request matters here */
+function viewportQuery(sql: string, signal?: AbortSignal): RepositoryQuery {
+  return {
+    toString: () => sql,
+    request: { kind: 'viewport' } as ViewportRequest,
+    signal,
+  };
+}
+
+describe('RemoteSqlRepository', () => {
+  let conn: DuckDBConnection;
+  let server: SqlServer;
+
+  beforeAll(async () => {
+    conn = await openBlockingDuckDB();
+    conn.insertArrowTable(pointTable(3000), { name: 'parquet_data' });
+    server = await startSqlServer(conn, (sql) => (sql.includes(SLOW) ? 300 : 0));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('checks the id column on load', async () => {
+    const repository = new RemoteSqlRepository({ endpoint: server.url });
+    await expect(repository.load(undefined, 'id')).resolves.toBeUndefined();
+    await expect(repository.load(undefined, 'missing')).rejects.toMatchObject({
+      code: 'INVALID_COLUMN_TYPE',
+    });
+    expect(await repository.getSchema()).toEqual(['id', 'x', 'y', 'category']);
+  });
+
+  it('decodes results and binds parameters', async () => {
+    const repository = new RemoteSqlRepository({ endpoint: server.url });
+    const data = await repository.query({
+      toString: () => 'SELECT id, category FROM parquet_data WHERE id < ? ORDER BY id',
+      params: [3],
+    });
+    expect(data.columns).toEqual(['id', 'category']);
+    expect(data.rowCount).toBe(3);
+    expect(Array.from(data.columnData.get('category')!)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('reports server errors', async () => {
+    const repository = new RemoteSqlRepository({ endpoint: server.url });
+    await expect(
+      repository.query({ toString: () => 'SELECT nope FROM parquet_data' })
+    ).rejects.toThrow(/HTTP 400/);
+  });
+
+  it('cancels a viewport query superseded by the next one', async () => {
+    const repository = new RemoteSqlRepository({ endpoint: server.url });
+    const aborted = server.aborted();
+
+    const first = repository.query(viewportQuery(`SELECT 1 AS v ${SLOW}`));
+    // Let the first request reach the server
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const second = repository.query(viewportQuery('SELECT 2 AS v'));
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    const data = await second;
+    expect(data.columnData.get('v')?.get(0)).toBe(2);
+    await expect.poll(() => server.aborted()).toBe(aborted + 1);
+  });
+
+  it('cancels a viewport query when its own signal aborts', async () => {
+    const repository = new RemoteSqlRepository({ endpoint: server.url });
+    const controller = new AbortController();
+    const query = repository.query(viewportQuery(`SELECT 1 AS v ${SLOW}`, controller.signal));
+    setTimeout(() => controller.abort(), 50);
+    await expect(query).rejects.toMatchObject({ name: 'AbortError' });
+
+    controller.abort();
+    await expect(
+      repository.query(viewportQuery('SELECT 1 AS v', controller.signal))
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('runs the SQL that DataLayer generates', async () => {
+    const layer = new DataLayer({
+      idColumn: 'id',
+      repository: new RemoteSqlRepository({ endpoint: server.url }),
+      autoFit: false,
+      useWorker: false,
+      visiblePointLimit: 500,
+    });
+    try {
+      const initial = await layer.initialize(undefined);
+      expect(initial.rowCount).toBe(500);
+      expect(initial.totalCount).toBe(3000);
+
+      const points = layer['visiblePoints'];
+      const id = points.id(0);
+      const x = points.instanceData[0];
+      const y = points.instanceData[1];
+      const hit = await layer.findNearestPoint(
+        ((x + 1) / 2) * 100,
+        ((1 - y) / 2) * 100,
+        100,
+        100,
+        1,
+        0,
+        0,
+        1
+      );
+      expect(hit?.row[hit.columns.indexOf('id')]).toBe(id);
+    } finally {
+      await layer.destroy();
+    }
+  });
+});
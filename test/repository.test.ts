@@ -0,0 +1,76 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { tableFromArrays, tableToIPC } from 'apache-arrow';
+import { ParquetReader } from '../src/repository.js';
+import { openBrowserDuckDB, startStaticServer } from './helpers/browser-duckdb.js';
+
+const server = await startStaticServer();
+const db = await openBrowserDuckDB(server.url);
+
+afterAll(async () => {
+  await db.terminate();
+  await server.close();
+});
+
+const encoder = new TextEncoder();
+
+/** CSV of `count` points with ids 0..count-1 */
+function csv(count: number): Uint8Array {
+  const rows = Array.from({ length: count }, (_, i) => `${i},${i / count},${1 - i / count}`);
+  return encoder.encode(['id,x,y', ...rows].join('\n'));
+}
+
+async function rowCount(reader: ParquetReader): Promise<number> {
+  const data = await reader.query({
+    toString: () => 'SELECT count(*)::INTEGER AS n FROM parquet_data',
+  });
+  return Number(data.columnData.get('n')?.get(0));
+}
+
+describe('ParquetReader', () => {
+  it('leaves in-memory sources intact', async () => {
+    const reader = new ParquetReader({ instance: db });
+    await reader.initialize();
+    try {
+      const buffer = csv(5).buffer as ArrayBuffer;
+      const byteLength = buffer.byteLength;
+      await reader.load(buffer, 'id', { format: 'csv' });
+      expect(buffer.byteLength).toBe(byteLength);
+      expect(await rowCount(reader)).toBe(5);
+    } finally {
+      await reader.close();
+    }
+  });
+
+  it('replaces the data of an earlier load', async () => {
+    const reader = new ParquetReader({ instance: db });
+    await reader.initialize();
+    try {
+      await reader.load(csv(5), 'id', { format: 'csv' });
+      const arrow = tableToIPC(
+        tableFromArrays({ id: Int32Array.of(1, 2), x: [0.1, 0.2], y: [0.3, 0.4] })
+      );
+      await reader.load(arrow, 'id', { format: 'arrow' });
+      expect(await rowCount(reader)).toBe(2);
+      await reader.load(csv(7), 'id', { format: 'csv' });
+      expect(await rowCount(reader)).toBe(7);
+    } finally {
+      await reader.close();
+    }
+  });
+
+  it('replaces the data loaded by another reader on the same instance', async () => {
+    const first = new ParquetReader({ instance: db });
+    await first.initialize();
+    await first.load(csv(5), 'id', { format: 'csv' });
+    await first.close();
+
+    const second = new ParquetReader({ instance: db });
+    await second.initialize();
+    try {
+      await second.load(csv(3), 'id', { format: 'csv' });
+      expect(await rowCount(second)).toBe(3);
+    } finally {
+      await second.close();
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DuckDBConnection } from '@duckdb/duckdb-wasm/dist/duckdb-node-blocking';
+import { Float64, Int32, Table, vectorFromArray } from 'apache-arrow';
+import { ArrowTableRepository } from '../src/arrow-repository.js';
+import { DataLayer } from '../src/layers/data-layer.js';
+import type { VisibleBounds } from '../src/layers/data-layer.js';
+import type { SamplingStrategy } from '../src/types.js';
+import { openBlockingDuckDB, queryRows } from './helpers/duckdb.js';
+
+// 200 points crowded into the top right corner and one point in each other quadrant
+const POINTS: [number, number, number][] = [
+  ...Array.from({ length: 200 }, (_, i): [number, number, number] => [
+    i,
+    0.9 + (i % 10) / 100,
+    0.9 + Math.floor(i / 10) / 200,
+  ]),
+  [200, -0.5, 0.5],
+  [201, -0.5, -0.5],
+  [202, 0.5, -0.5],
+];
+// Points on a vertical line, for bounds of zero width
+const LINE: [number, number, number][] = Array.from({ length: 20 }, (_, i) => [
+  300 + i,
+  0.25,
+  i / 20,
+]);
+
+const FULL: VisibleBounds = { minX: -1, maxX: 1, minY: -1, maxY: 1 };
+const ON_LINE: VisibleBounds = { minX: 0.25, maxX: 0.25, minY: 0, maxY: 1 };
+
+function table(points: [number, number, number][]): Table {
+  return new Table({
+    id: vectorFromArray(
+      points.map((p) => p[0]),
+      new Int32()
+    ),
+    x: vectorFromArray(
+      points.map((p) => p[1]),
+      new Float64()
+    ),
+    y: vectorFromArray(
+      points.map((p) => p[2]),
+      new Float64()
+    ),
+  });
+}
+
+function layerWith(sampling: SamplingStrategy, repository?: ArrowTableRepository): DataLayer {
+  return new DataLayer({ idColumn: 'id', useWorker: false, sampling, repository });
+}
+
+describe('sampling SQL', () => {
+  let conn: DuckDBConnection;
+
+  beforeAll(async () => {
+    conn = await openBlockingDuckDB();
+    const values = [...POINTS, ...LINE].map(([id, x, y]) => `(${id}, ${x}, ${y})`).join(', ');
+    conn.query(`CREATE TABLE t AS SELECT * FROM (VALUES ${values}) v(id, x, y)`);
+  });
+
+  /** Ids of the first `limit` rows inside the bounds, in sampling order */
+  const sample = (sampling: SamplingStrategy, bounds: VisibleBounds, limit: number) => {
+    const order = layerWith(sampling)['buildSamplingOrder'](bounds);
+    return queryRows(
+      conn,
+      `SELECT id FROM t WHERE x BETWEEN ${bounds.minX} AND ${bounds.maxX} ` +
+        `AND y BETWEEN ${bounds.minY} AND ${bounds.maxY} ORDER BY ${order}, id LIMIT ${limit}`
+    ).map((row) => Number(row.id));
+  };
+
+  it('takes a point from every grid cell first', () => {
+    const ids = sample({ type: 'grid', gridSize: 2 }, FULL, 4);
+    expect(ids.filter((id) => id >= 200).sort()).toEqual([200, 201, 202]);
+    expect(ids.filter((id) => id < 200)).toHaveLength(1);
+  });
+
+  it('samples bounds of zero width on a grid', () => {
+    // Still one point from each of the 4 cells along y first
+    const ids = sample({ type: 'grid', gridSize: 4 }, ON_LINE, 4);
+    expect(ids.map((id) => Math.floor((id - 300) / 5)).sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('keeps the points of a smaller hash sample', () => {
+    const small = sample({ type: 'hash' }, FULL, 10);
+    const large = sample({ type: 'hash' }, FULL, 50);
+    expect(large.slice(0, 10)).toEqual(small);
+  });
+
+  it('keeps the points of highest priority', () => {
+    expect(sample({ type: 'priority', prioritySql: 'id' }, FULL, 3)).toEqual([319, 318, 317]);
+    expect(sample({ type: 'priority', prioritySql: 'id', ascending: true }, FULL, 3)).toEqual([
+      0, 1, 2,
+    ]);
+  });
+});
+
+describe('sampling over ArrowTableRepository', () => {
+  /** Ids of the points a viewport query returns */
+  const sample = async (sampling: SamplingStrategy, bounds: VisibleBounds, limit: number) => {
+    const repository = new ArrowTableRepository(table([...POINTS, ...LINE]));
+    const layer = layerWith(sampling, repository);
+    layer.updateOptions({ visiblePointLimit: limit });
+    layer['repository'] = repository;
+    const data = await layer.runQuery(bounds);
+    const ids = data!.columnData.get('id')!;
+    return Array.from({ length: data!.rowCount }, (_, i) => Number(ids.get(i)));
+  };
+
+  it('takes a point from every grid cell first', async () => {
+    const ids = await sample({ type: 'grid', gridSize: 2 }, FULL, 4);
+    expect(ids.filter((id) => id >= 200).sort()).toEqual([200, 201, 202]);
+    expect(ids.filter((id) => id < 200)).toHaveLength(1);
+  });
+
+  it('samples bounds of zero width on a grid', async () => {
+    const ids = await sample({ type: 'grid', gridSize: 4 }, ON_LINE, 4);
+    expect(ids.map((id) => Math.floor((id - 300) / 5)).sort()).toEqual([0, 1, 2, 3]);
+  });
+});
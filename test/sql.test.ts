@@ -0,0 +1,100 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DuckDBConnection } from '@duckdb/duckdb-wasm/dist/duckdb-node-blocking';
+import { likePattern, quoteIdentifier, quoteString, sqlLiteral } from '../src/sql.js';
+import { openBlockingDuckDB, queryRows } from './helpers/duckdb.js';
+
+describe('quoteIdentifier', () => {
+  let conn: DuckDBConnection;
+
+  beforeAll(async () => {
+    conn = await openBlockingDuckDB();
+  });
+
+  it('doubles embedded double quotes', () => {
+    expect(quoteIdentifier('x')).toBe('"x"');
+    expect(quoteIdentifier('say "hi"')).toBe('"say ""hi"""');
+  });
+
+  it.each(['plain', 'with space', "it's", 'say "hi"', 'semi;colon -- comment'])(
+    'round-trips %j through DuckDB',
+    (name) => {
+      const rows = queryRows(conn, `SELECT 1 AS ${quoteIdentifier(name)}`);
+      expect(Object.keys(rows[0])).toEqual([name]);
+    }
+  );
+});
+
+describe('sqlLiteral', () => {
+  let conn: DuckDBConnection;
+
+  beforeAll(async () => {
+    conn = await openBlockingDuckDB();
+  });
+
+  it('writes each value type', () => {
+    expect(sqlLiteral(null)).toBe('NULL');
+    expect(sqlLiteral(1.5)).toBe('1.5');
+    expect(sqlLiteral(-3)).toBe('-3');
+    expect(sqlLiteral(9007199254740993n)).toBe('9007199254740993');
+    expect(sqlLiteral(true)).toBe('TRUE');
+    expect(sqlLiteral(false)).toBe('FALSE');
+    expect(sqlLiteral("it's")).toBe("'it''s'");
+    expect(sqlLiteral(new Date(Date.UTC(2024, 0, 2, 3, 4, 5, 6)))).toBe(
+      "TIMESTAMP '2024-01-02 03:04:05.006'"
+    );
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(() => sqlLiteral(NaN)).toThrow();
+    expect(() => sqlLiteral(Infinity)).toThrow();
+  });
+
+  it.each(["it's", "''", "\\'; DROP TABLE t; --", 'line\nbreak', 'ünïcode'])(
+    'round-trips string %j through DuckDB',
+    (value) => {
+      expect(queryRows(conn, `SELECT ${sqlLiteral(value)} AS v`)[0].v).toBe(value);
+    }
+  );
+
+  it('keeps 64-bit integers exact', () => {
+    const rows = queryRows(conn, `SELECT ${sqlLiteral(9007199254740993n)}::BIGINT AS v`);
+    expect(rows[0].v).toBe(9007199254740993n);
+  });
+
+  it('writes dates as UTC timestamps', () => {
+    const date = new Date(Date.UTC(2024, 0, 2, 3, 4, 5, 6));
+    const rows = queryRows(conn, `SELECT epoch_ms(${sqlLiteral(date)}) AS v`);
+    expect(Number(rows[0].v)).toBe(date.getTime());
+  });
+
+  it('quotes string values as literals', () => {
+    expect(quoteString('a')).toBe("'a'");
+  });
+});
+
+describe('likePattern', () => {
+  let conn: DuckDBConnection;
+
+  beforeAll(async () => {
+    conn = await openBlockingDuckDB();
+  });
+
+  it('escapes LIKE wildcards and the escape character', () => {
+    expect(likePattern('50%_a\\b', false, false)).toBe("'50\\%\\_a\\\\b' ESCAPE '\\'");
+    expect(likePattern('x', true, true)).toBe("'%x%' ESCAPE '\\'");
+    expect(likePattern('x', false, true)).toBe("'x%' ESCAPE '\\'");
+    expect(likePattern('x', true, false)).toBe("'%x' ESCAPE '\\'");
+  });
+
+  const matches = (text: string, pattern: string) =>
+    queryRows(conn, `SELECT ${sqlLiteral(text)} LIKE ${pattern} AS v`)[0].v;
+
+  it('matches wildcard characters literally', () => {
+    expect(matches('100%', likePattern('0%', true, false))).toBe(true);
+    expect(matches('1000', likePattern('0%', true, false))).toBe(false);
+    expect(matches('a_b', likePattern('a_b', false, false))).toBe(true);
+    expect(matches('axb', likePattern('a_b', false, false))).toBe(false);
+    expect(matches('C:\\dir', likePattern('\\d', true, true))).toBe(true);
+    expect(matches("it's here", likePattern("it's", false, true))).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DuckDBConnection } from '@duckdb/duckdb-wasm/dist/duckdb-node-blocking';
+import {
+  TILE_LEVEL_COLUMN,
+  chooseTileLevel,
+  tileKey,
+  tileLevelSql,
+  tileWhereSql,
+  tilesExtent,
+  tilesInBounds,
+} from '../src/tile-pyramid.js';
+import type { TilePyramidSpec } from '../src/tile-pyramid.js';
+import { openBlockingDuckDB, queryRows } from './helpers/duckdb.js';
+
+const SPEC: TilePyramidSpec = {
+  xSql: 'x',
+  ySql: 'y',
+  idColumn: 'id',
+  originX: -1,
+  originY: -1,
+  size: 2,
+  maxLevel: 3,
+  pointsPerTile: 20,
+};
+
+describe('tile selection', () => {
+  it('picks the level whose tiles are about half the bounds', () => {
+    const bounds = (half: number) => ({ minX: -half, maxX: half, minY: -half, maxY: half });
+    expect(chooseTileLevel(SPEC, bounds(1))).toBe(1);
+    expect(chooseTileLevel(SPEC, bounds(0.25))).toBe(3);
+    // Clamped to the pyramid
+    expect(chooseTileLevel(SPEC, bounds(0.01))).toBe(3);
+    expect(chooseTileLevel(SPEC, bounds(10))).toBe(0);
+  });
+
+  it('lists the tiles intersecting the bounds', () => {
+    const keys = (level: number, minX: number, maxX: number, minY: number, maxY: number) =>
+      tilesInBounds(SPEC, level, { minX, maxX, minY, maxY }).map(tileKey);
+    expect(keys(1, 0.1, 0.9, 0.1, 0.9)).toEqual(['1/1/1']);
+    expect(keys(1, -0.5, 0.5, 0.1, 0.9)).toEqual(['1/0/1', '1/1/1']);
+    expect(keys(2, -2, 2, -2, -0.6)).toEqual(['2/0/0', '2/1/0', '2/2/0', '2/3/0']);
+    expect(keys(1, 2, 3, 2, 3)).toEqual([]);
+  });
+
+  it('covers the tiles with their extent', () => {
+    const extent = tilesExtent(
+      SPEC,
+      tilesInBounds(SPEC, 2, { minX: -0.4, maxX: 0.4, minY: 0.1, maxY: 0.2 })
+    );
+    expect(extent!.minX).toBeCloseTo(-0.5);
+    expect(extent!.maxX).toBeCloseTo(0.5);
+    expect(extent!.minY).toBeCloseTo(0);
+    expect(extent!.maxY).toBeCloseTo(0.5);
+    expect(tilesExtent(SPEC, [])).toBeNull();
+  });
+});
+
+describe('tile pyramid', () => {
+  let conn: DuckDBConnection;
+
+  beforeAll(async () => {
+    conn = await openBlockingDuckDB();
+    conn.query(
+      `CREATE TABLE points AS SELECT range AS id, (hash(range) % 2000) / 1000 - 1 AS x, ` +
+        `(hash(range + 2000) % 2000) / 1000 - 1 AS y FROM range(2000)`
+    );
+    conn.query(
+      `CREATE TABLE pyramid AS SELECT *, ${tileLevelSql(SPEC)} AS ${TILE_LEVEL_COLUMN} FROM points`
+    );
+  });
+
+  /** Number of points in each tile of a level, by tile key */
+  const tileCounts = (level: number): Map<string, number> => {
+    const counts = new Map<string, number>();
+    const tiles = 2 ** level;
+    for (let ty = 0; ty < tiles; ty++) {
+      for (let tx = 0; tx < tiles; tx++) {
+        const tile = { level, tx, ty };
+        const [{ n }] = queryRows(
+          conn,
+          `SELECT count(*)::INTEGER AS n FROM pyramid WHERE ${tileWhereSql(SPEC, tile)}`
+        );
+        counts.set(tileKey(tile), Number(n));
+      }
+    }
+    return counts;
+  };
+
+  it('holds at most pointsPerTile points per tile above the deepest level', () => {
+    for (let level = 0; level < SPEC.maxLevel; level++) {
+      for (const count of tileCounts(level).values()) {
+        expect(count).toBeLessThanOrEqual(SPEC.pointsPerTile);
+      }
+    }
+  });
+
+  it('holds every point once at the deepest level', () => {
+    const counts = tileCounts(SPEC.maxLevel);
+    expect([...counts.values()].reduce((sum, n) => sum + n, 0)).toBe(2000);
+  });
+
+  it('selects every point of a level with exactly one tile', () => {
+    expect(tileCounts(0).get('0/0/0')).toBe(SPEC.pointsPerTile);
+    for (let level = 1; level < SPEC.maxLevel; level++) {
+      const [{ n }] = queryRows(
+        conn,
+        `SELECT count(*)::INTEGER AS n FROM pyramid WHERE ${TILE_LEVEL_COLUMN} <= ${level}`
+      );
+      const total = [...tileCounts(level).values()].reduce((sum, count) => sum + count, 0);
+      expect(total).toBe(Number(n));
+    }
+  });
+});
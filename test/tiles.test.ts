@@ -0,0 +1,116 @@
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+import { DataLayer } from '../src/layers/data-layer.js';
+import type { DataLayerOptions, ProcessedData } from '../src/layers/data-layer.js';
+import type { RepositoryQuery } from '../src/repository.js';
+import { openBrowserDuckDB, startStaticServer } from './helpers/browser-duckdb.js';
+
+const server = await startStaticServer();
+const db = await openBrowserDuckDB(server.url);
+
+afterAll(async () => {
+  await db.terminate();
+  await server.close();
+});
+
+const layers: DataLayer[] = [];
+
+afterEach(async () => {
+  await Promise.all(layers.splice(0).map((layer) => layer.destroy()));
+});
+
+/** CSV of 2000 points spread over [-1, 1]² */
+function csv(): Uint8Array {
+  const rows = Array.from({ length: 2000 }, (_, i) => {
+    const x = ((i * 7919) % 2000) / 1000 - 1;
+    const y = ((i * 104729) % 2000) / 1000 - 1;
+    return `${i},${x},${y}`;
+  });
+  return new TextEncoder().encode(['id,x,y', ...rows].join('\n'));
+}
+
+/**
+ * Data layer over DuckDB-WASM with tiles, recording the queries it runs
+ */
+async function createLayer(
+  options: Partial<DataLayerOptions> = {}
+): Promise<{ layer: DataLayer; queries: string[] }> {
+  const layer = new DataLayer({
+    idColumn: 'id',
+    duckdb: { instance: db },
+    autoFit: false,
+    useWorker: false,
+    tiles: { maxLevel: 3, pointsPerTile: 50 },
+    scheduling: { schedule: (task) => task(), cancel: () => {} },
+    ...options,
+  });
+  layers.push(layer);
+  await layer.initialize(csv(), 1, { format: 'csv' });
+
+  const queries: string[] = [];
+  const repository = layer['repository']!;
+  const query = repository.query.bind(repository);
+  repository.query = (q: RepositoryQuery) => {
+    queries.push(q.toString());
+    return query(q);
+  };
+  return { layer, queries };
+}
+
+function update(layer: DataLayer, zoom: number, panX = 0, panY = 0): Promise<ProcessedData> {
+  return new Promise((resolve) => layer.scheduleVisiblePointsUpdate(zoom, panX, panY, 1, resolve));
+}
+
+/** Hover the point at the center of the canvas */
+function hoverCenter(layer: DataLayer, zoom: number) {
+  const points = layer['visiblePoints'];
+  const x = points.instanceData[0];
+  const y = points.instanceData[1];
+  return layer.findNearestPoint(
+    ((x * zoom + 1) / 2) * 100,
+    ((1 - y * zoom) / 2) * 100,
+    100,
+    100,
+    zoom,
+    0,
+    0,
+    1
+  );
+}
+
+const tileQueries = (queries: string[]) =>
+  queries.filter((sql) => sql.includes('__tile_level__ <='));
+
+describe('tile pyramid', () => {
+  it('queries each tile once and serves it from the cache afterwards', async () => {
+    const { layer, queries } = await createLayer();
+
+    const first = await update(layer, 2);
+    const queried = tileQueries(queries).length;
+    expect(queried).toBeGreaterThan(0);
+    expect(first.rowCount).toBeGreaterThan(0);
+
+    const again = await update(layer, 2);
+    expect(tileQueries(queries).length).toBe(queried);
+    expect(again.rowCount).toBe(first.rowCount);
+  });
+
+  it('queries deeper tiles when zooming in', async () => {
+    const { layer, queries } = await createLayer();
+    await update(layer, 1);
+    queries.length = 0;
+    await update(layer, 8);
+    expect(tileQueries(queries).length).toBeGreaterThan(0);
+    expect(tileQueries(queries).every((sql) => sql.includes('__tile_level__ <= 3'))).toBe(true);
+  });
+
+  it('hovers points after reloading without tiles', async () => {
+    const { layer } = await createLayer();
+    expect(await hoverCenter(layer, 1)).not.toBeNull();
+
+    layer.updateOptions({ tiles: false });
+    await layer.initialize(csv(), 1, { format: 'csv' });
+    const hit = await hoverCenter(layer, 1);
+    expect(hit?.columns).toContain('id');
+    expect(hit?.columns).not.toContain('__tile_level__');
+  });
+});
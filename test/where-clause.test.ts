@@ -0,0 +1,183 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DuckDBConnection } from '@duckdb/duckdb-wasm/dist/duckdb-node-blocking';
+import { DataLayer } from '../src/layers/data-layer.js';
+import type { WhereCondition } from '../src/types.js';
+import { openBlockingDuckDB, queryRows } from './helpers/duckdb.js';
+
+// Column names with spaces and quotes, to check that every node quotes them
+const ID = 'row id';
+const NUM = 'my "value"';
+const TEXT = "it's text";
+const WHEN = 'created at';
+const FLAG = 'is ok?';
+
+const ROWS: [number, number | null, string | null, string, boolean | null][] = [
+  [1, 1.5, 'apple', '2024-01-01 00:00:00', true],
+  [2, 10, 'Banana', '2024-02-01 00:00:00', false],
+  [3, -2, '100%', '2024-03-01 12:00:00', null],
+  [4, null, 'a_b', '2024-04-01 00:00:00', true],
+  [5, 7, "o'clock", '2024-05-01 00:00:00', false],
+  [6, 3, null, '2024-06-01 00:00:00', true],
+  [7, 0, 'axb', '2024-07-01 00:00:00', true],
+];
+
+function buildWhereClause(condition: WhereCondition): string {
+  const layer = new DataLayer({ idColumn: ID, useWorker: false });
+  return layer['buildWhereClauseString'](condition);
+}
+
+describe('buildWhereClauseString', () => {
+  let conn: DuckDBConnection;
+
+  /** Ids of the rows matching the condition */
+  const matching = (condition: WhereCondition): number[] =>
+    queryRows(
+      conn,
+      `SELECT "row id" AS id FROM t WHERE ${buildWhereClause(condition)} ORDER BY 1`
+    ).map((row) => Number(row.id));
+
+  beforeAll(async () => {
+    conn = await openBlockingDuckDB();
+    conn.query(
+      `CREATE TABLE t ("row id" INTEGER, "my ""value""" DOUBLE, "it's text" VARCHAR, "created at" TIMESTAMP, "is ok?" BOOLEAN)`
+    );
+    const values = ROWS.map(
+      ([id, num, text, when, flag]) =>
+        `(${id}, ${num ?? 'NULL'}, ${text === null ? 'NULL' : `'${text.replace(/'/g, "''")}'`}, TIMESTAMP '${when}', ${flag ?? 'NULL'})`
+    );
+    conn.query(`INSERT INTO t VALUES ${values.join(', ')}`);
+  });
+
+  it('numeric', () => {
+    expect(matching({ type: 'numeric', column: NUM, operator: '>', value: 2 })).toEqual([2, 5, 6]);
+    expect(matching({ type: 'numeric', column: NUM, operator: '<=', value: 0 })).toEqual([3, 7]);
+    expect(matching({ type: 'numeric', column: NUM, operator: '=', value: 1.5 })).toEqual([1]);
+    expect(matching({ type: 'numeric', column: NUM, operator: '!=', value: 1.5 })).toEqual([
+      2, 3, 5, 6, 7,
+    ]);
+  });
+
+  it('string equals', () => {
+    expect(
+      matching({ type: 'string', column: TEXT, operator: 'equals', value: "o'clock" })
+    ).toEqual([5]);
+    expect(matching({ type: 'string', column: TEXT, operator: 'equals', value: 'banana' })).toEqual(
+      []
+    );
+    expect(
+      matching({
+        type: 'string',
+        column: TEXT,
+        operator: 'equals',
+        value: 'banana',
+        caseInsensitive: true,
+      })
+    ).toEqual([2]);
+  });
+
+  it('string contains, startsWith and endsWith match wildcards literally', () => {
+    expect(matching({ type: 'string', column: TEXT, operator: 'contains', value: '%' })).toEqual([
+      3,
+    ]);
+    expect(matching({ type: 'string', column: TEXT, operator: 'contains', value: '_' })).toEqual([
+      4,
+    ]);
+    expect(matching({ type: 'string', column: TEXT, operator: 'startsWith', value: "o'" })).toEqual(
+      [5]
+    );
+    expect(matching({ type: 'string', column: TEXT, operator: 'endsWith', value: 'E' })).toEqual(
+      []
+    );
+    expect(
+      matching({
+        type: 'string',
+        column: TEXT,
+        operator: 'endsWith',
+        value: 'E',
+        caseInsensitive: true,
+      })
+    ).toEqual([1]);
+  });
+
+  it('date', () => {
+    expect(
+      matching({ type: 'date', column: WHEN, operator: '>=', value: '2024-06-01 00:00:00' })
+    ).toEqual([6, 7]);
+    expect(
+      matching({
+        type: 'date',
+        column: WHEN,
+        operator: '<',
+        value: new Date(Date.UTC(2024, 2, 1, 12)),
+      })
+    ).toEqual([1, 2]);
+  });
+
+  it('boolean', () => {
+    expect(matching({ type: 'boolean', column: FLAG })).toEqual([1, 4, 6, 7]);
+    expect(matching({ type: 'boolean', column: FLAG, value: false })).toEqual([2, 5]);
+  });
+
+  it('in', () => {
+    expect(matching({ type: 'in', column: TEXT, values: ['apple', "o'clock", 'none'] })).toEqual([
+      1, 5,
+    ]);
+    expect(matching({ type: 'in', column: NUM, values: [10, 0] })).toEqual([2, 7]);
+    expect(matching({ type: 'in', column: NUM, values: [] })).toEqual([]);
+  });
+
+  it('between', () => {
+    expect(matching({ type: 'between', column: NUM, min: 0, max: 7 })).toEqual([1, 5, 6, 7]);
+    expect(
+      matching({
+        type: 'between',
+        column: WHEN,
+        min: new Date(Date.UTC(2024, 1, 1)),
+        max: new Date(Date.UTC(2024, 3, 1)),
+      })
+    ).toEqual([2, 3, 4]);
+  });
+
+  it('null', () => {
+    expect(matching({ type: 'null', column: TEXT })).toEqual([6]);
+    expect(matching({ type: 'null', column: NUM, isNull: false })).toEqual([1, 2, 3, 5, 6, 7]);
+  });
+
+  it('and, or and not', () => {
+    const positive: WhereCondition = { type: 'numeric', column: NUM, operator: '>', value: 0 };
+    const flagged: WhereCondition = { type: 'boolean', column: FLAG };
+    expect(matching({ type: 'and', conditions: [positive, flagged] })).toEqual([1, 6]);
+    expect(matching({ type: 'or', conditions: [positive, flagged] })).toEqual([1, 2, 4, 5, 6, 7]);
+    expect(matching({ type: 'not', condition: positive })).toEqual([3, 7]);
+    expect(
+      matching({
+        type: 'not',
+        condition: { type: 'or', conditions: [positive, { type: 'null', column: NUM }] },
+      })
+    ).toEqual([3, 7]);
+  });
+
+  it('empty and matches everything, empty or matches nothing', () => {
+    expect(matching({ type: 'and', conditions: [] })).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(matching({ type: 'or', conditions: [] })).toEqual([]);
+  });
+
+  it('raw', () => {
+    expect(matching({ type: 'raw', sql: '"row id" % 2 = 0' })).toEqual([2, 4, 6]);
+  });
+
+  it('hides BIGINT legend categories beyond 2^53 exactly', () => {
+    const layer = new DataLayer({ idColumn: ID, useWorker: false });
+    layer['colorScale'] = { type: 'categorical', field: 'big' } as never;
+    layer['hiddenCategories'] = [9007199254740993n];
+    const where = layer['buildWhereClauseString']({
+      type: 'and',
+      conditions: layer['getActiveConditions'](),
+    });
+    const rows = queryRows(
+      conn,
+      `SELECT big::VARCHAR AS big FROM (VALUES (9007199254740992::BIGINT), (9007199254740993::BIGINT)) v(big) WHERE ${where}`
+    );
+    expect(rows.map((row) => row.big)).toEqual(['9007199254740992']);
+  });
+});
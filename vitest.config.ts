@@ -0,0 +1,19 @@
+import { createRequire } from 'node:module';
+import { defineConfig } from 'vitest/config';
+
+const require = createRequire(import.meta.url);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // DuckDB-WASM's Node build requires the CommonJS apache-arrow; use the same
+      // copy in the sources so that Arrow classes pass instanceof checks
+      'apache-arrow': require.resolve('apache-arrow'),
+    },
+  },
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    testTimeout: 30000,
+  },
+});